@@ -0,0 +1,177 @@
+import fs from "fs/promises";
+import path from "path";
+import { run } from "../cli";
+
+jest.mock("fs/promises");
+const mockedFs = jest.mocked(fs);
+
+describe("env-validator CLI", () => {
+  const schemaPath = path.join(__dirname, "env.schema.ts");
+  let stdout: string[];
+  let stderr: string[];
+  const io = {
+    stdout: (text: string) => stdout.push(text),
+    stderr: (text: string) => stderr.push(text),
+  };
+
+  const mockFiles = (files: Record<string, string>) => {
+    mockedFs.readFile.mockImplementation((async (file: string) => {
+      const name = path.basename(file);
+      if (files[name] === undefined) {
+        throw Object.assign(new Error("not found"), { code: "ENOENT" });
+      }
+      return files[name];
+    }) as typeof fs.readFile);
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    stdout = [];
+    stderr = [];
+  });
+
+  it("should print usage and fail without a command", async () => {
+    expect(await run([], io)).toBe(2);
+    expect(stderr[0]).toContain("Usage: env-validator <command>");
+    expect(await run(["--help"], io)).toBe(0);
+    expect(await run(["deploy"], io)).toBe(2);
+    expect(stderr[1]).toContain('Unknown command "deploy"');
+  });
+
+  it("should require a schema module", async () => {
+    const previous = process.env.ENV_VALIDATOR_SCHEMA;
+    delete process.env.ENV_VALIDATOR_SCHEMA;
+    try {
+      expect(await run(["check"], io)).toBe(2);
+      expect(stderr[0]).toContain("No schema given");
+    } finally {
+      if (previous !== undefined) process.env.ENV_VALIDATOR_SCHEMA = previous;
+    }
+  });
+
+  describe("check", () => {
+    it("should pass for a valid env file", async () => {
+      mockFiles({ ".env": "PORT=3000\nAPI_URL=https://api.example.com" });
+
+      const code = await run(["check", "-s", schemaPath, "-e", ".env"], io);
+
+      expect(code).toBe(0);
+      expect(stdout).toEqual(["Environment is valid (2 variables)"]);
+    });
+
+    it("should report missing and invalid variables", async () => {
+      mockFiles({ ".env": "PORT=abc" });
+
+      const code = await run(["check", "-s", schemaPath, "-e", ".env"], io);
+
+      expect(code).toBe(1);
+      expect(stderr[0]).toContain("PORT: Invalid number");
+      expect(stderr[0]).toContain("API_URL: Required");
+    });
+
+    it("should report unknown variables in strict mode", async () => {
+      mockFiles({
+        ".env": "PORT=3000\nAPI_URL=https://a.com\nAPI_ULR=https://a.com",
+      });
+
+      const code = await run(
+        ["check", "-s", schemaPath, "-e", ".env", "--strict"],
+        io,
+      );
+
+      expect(code).toBe(1);
+      expect(stderr[0]).toContain(
+        "API_ULR: Unknown variable, did you mean API_URL? (in ",
+      );
+
+      stderr = [];
+      expect(await run(["check", "-s", schemaPath, "--strict"], io)).toBe(1);
+      expect(stderr.join("\n")).toContain("API_ULR: Unknown variable");
+      expect(stderr.join("\n")).not.toContain("PATH");
+    });
+
+    it("should output JSON", async () => {
+      mockFiles({ ".env": "PORT=abc" });
+
+      const code = await run(
+        ["check", "--schema", schemaPath, "--env", ".env", "--format", "json"],
+        io,
+      );
+
+      expect(code).toBe(1);
+      expect(JSON.parse(stdout[0])).toMatchObject({
+        valid: false,
+        missing: ["API_URL"],
+        invalid: ["PORT"],
+      });
+    });
+  });
+
+  it("should write an example file", async () => {
+    const code = await run(["example", "-s", schemaPath, "-o", "out.env"], io);
+
+    expect(code).toBe(0);
+    expect(mockedFs.writeFile).toHaveBeenCalledWith(
+      "out.env",
+      expect.stringContaining("API_URL=https://example.com"),
+    );
+  });
+
+  it("should sync targets from a source", async () => {
+    mockFiles({ ".env": "PORT=3000\nAPI_URL=https://a.com", ".env.ci": "" });
+
+    const code = await run(["sync", "-s", schemaPath, ".env", ".env.ci"], io);
+
+    expect(code).toBe(0);
+    expect(mockedFs.writeFile).toHaveBeenCalledWith(
+      ".env.ci",
+      expect.stringContaining("PORT=3000"),
+    );
+    expect(await run(["sync", "-s", schemaPath, ".env"], io)).toBe(2);
+  });
+
+  it("should print the sync patch in dry-run mode", async () => {
+    mockFiles({ ".env": "PORT=3000", ".env.ci": "LEGACY=1\n" });
+
+    const code = await run(
+      [
+        "sync",
+        "-s",
+        schemaPath,
+        ".env",
+        ".env.ci",
+        "--dry-run",
+        "--flag-unknown",
+      ],
+      io,
+    );
+
+    expect(code).toBe(0);
+    expect(mockedFs.writeFile).not.toHaveBeenCalled();
+    expect(stdout[0]).toContain("+PORT=3000\n+API_URL=https://example.com");
+    expect(stderr).toEqual([".env.ci: not in schema: LEGACY"]);
+  });
+
+  describe("diff", () => {
+    it("should list added, removed and changed keys", async () => {
+      mockFiles({ a: "A=1\nB=2\nC=3", b: "B=2\nC=4\nD=5" });
+
+      expect(await run(["diff", "a", "b"], io)).toBe(1);
+      expect(stdout[0]).toBe("+ D\n- A\n~ C");
+
+      expect(await run(["diff", "a", "b", "-f", "json"], io)).toBe(1);
+      expect(JSON.parse(stdout[1])).toEqual({
+        added: ["D"],
+        removed: ["A"],
+        changed: ["C"],
+      });
+    });
+
+    it("should succeed for identical files", async () => {
+      mockFiles({ a: "A=1", b: "A=1 # same" });
+
+      expect(await run(["diff", "a", "b"], io)).toBe(0);
+      expect(stdout[0]).toBe("a and b define the same variables");
+    });
+  });
+});
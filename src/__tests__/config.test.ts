@@ -0,0 +1,82 @@
+import { spawnSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("config preload", () => {
+  const preload = join(__dirname, "..", "config.ts");
+  const schemaPath = join(__dirname, "env.schema.ts");
+  let dir: string;
+
+  // Runs `node -r <preload> -e <script>` in the temp dir, compiling the
+  // TypeScript sources on the fly
+  const run = (env: Record<string, string>) =>
+    spawnSync(
+      process.execPath,
+      [
+        "-r",
+        join(dir, "register.js"),
+        "-r",
+        preload,
+        "-e",
+        "console.log(JSON.stringify([process.env.PORT, process.env.API_URL]))",
+      ],
+      {
+        cwd: dir,
+        env: { PATH: process.env.PATH ?? "", ...env },
+        encoding: "utf8",
+      },
+    );
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "env-validator-"));
+    writeFileSync(
+      join(dir, "register.js"),
+      `const fs = require("fs");
+const ts = require(${JSON.stringify(require.resolve("typescript"))});
+require.extensions[".ts"] = (module, file) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, "utf8"), {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+  });
+  module._compile(outputText, file);
+};
+`,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should populate process.env without overriding it", () => {
+    writeFileSync(join(dir, ".env"), "PORT=3000\nAPI_URL=http://localhost");
+
+    const result = run({ PORT: "4000" });
+    expect(result.status).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual(["4000", "http://localhost"]);
+  });
+
+  it("should validate against the ENV_VALIDATOR_SCHEMA module", () => {
+    writeFileSync(join(dir, ".env"), "PORT=3000\nAPI_URL=http://localhost");
+
+    const result = run({ ENV_VALIDATOR_SCHEMA: schemaPath });
+    expect(result.status).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual(["3000", "http://localhost"]);
+  });
+
+  it("should exit with the report when the environment is invalid", () => {
+    writeFileSync(join(dir, ".env"), "PORT=abc");
+
+    const result = run({ ENV_VALIDATOR_SCHEMA: schemaPath });
+    expect(result.status).toBe(1);
+    expect(result.stdout).toBe("");
+    expect(result.stderr).toContain("Environment validation failed:");
+    expect(result.stderr).toMatch(/- PORT: .*"abc".* \(from .*\.env\)/);
+    expect(result.stderr).toContain("- API_URL: ");
+    expect(result.stderr).not.toContain("    at ");
+  });
+});
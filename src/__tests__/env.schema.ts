@@ -0,0 +1,7 @@
+import { defineSchema, env } from "../builder";
+
+// Schema module loaded by the CLI tests
+export const schema = defineSchema({
+  PORT: env.number({ required: true }),
+  API_URL: env.url({ required: true }),
+});
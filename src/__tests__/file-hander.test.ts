@@ -1,6 +1,15 @@
 import fs from "fs/promises";
 import { EnvFileHandler } from "../file-handler";
-import { defineSchema, env } from "../builder";
+import { defineSchema, env, group } from "../builder";
+import { registerType } from "../registry";
+import { shape } from "../shape";
+import { parseEnvContent } from "../parser";
+
+declare module "../types" {
+  interface TypeMap {
+    minutes: number;
+  }
+}
 
 jest.mock("fs/promises");
 const mockedFs = jest.mocked(fs);
@@ -65,6 +74,23 @@ describe("EnvFileHandler", () => {
       });
     });
 
+    it("should handle export prefixes, inline comments and multiline values", async () => {
+      mockedFs.readFile.mockResolvedValue(
+        'export PORT=3000 # server port\r\nKEY="line1\nline2"\r\n',
+      );
+
+      const result = await EnvFileHandler.parse(".env");
+      expect(result).toEqual({ PORT: "3000", KEY: "line1\nline2" });
+    });
+
+    it("should reject malformed lines with their position", async () => {
+      mockedFs.readFile.mockResolvedValue("PORT=3000\nNOT AN ASSIGNMENT");
+
+      await expect(EnvFileHandler.parse(".env.local")).rejects.toThrow(
+        'Expected "=" after NOT at line 2, column 5 of .env.local',
+      );
+    });
+
     it("should return empty object when file does not exist", async () => {
       mockedFs.readFile.mockRejectedValue({ code: "ENOENT" });
 
@@ -105,6 +131,155 @@ describe("EnvFileHandler", () => {
       expect(content).toContain("# Server port");
     });
 
+    it("should document the allowed choices of enum variables", async () => {
+      const schema = defineSchema({
+        NODE_ENV: env.enum(["development", "staging", "production"] as const),
+      });
+
+      await EnvFileHandler.generateExample(schema);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain(
+        "# Type: one of: development, staging, production",
+      );
+      expect(content).toContain("NODE_ENV=development");
+    });
+
+    it("should document declarative constraints", async () => {
+      const schema = defineSchema({
+        POOL_SIZE: env.number({ integer: true, min: 5, max: 100 }),
+        API_KEY: env.string({ startsWith: "pk_", minLength: 8 }),
+      });
+
+      await EnvFileHandler.generateExample(schema);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain("# Constraints: integer, min 5, max 100");
+      expect(content).toContain("POOL_SIZE=100");
+      expect(content).toContain(
+        '# Constraints: min length 8, starts with "pk_"',
+      );
+      expect(content).toContain("API_KEY=pk_example_value");
+      expect(content).not.toContain("Has custom validation");
+    });
+
+    it("should render custom types with their serializer and example", async () => {
+      registerType("minutes", {
+        parse: (value) => Number(value.replace(/m$/, "")) * 60000,
+        serialize: (value) => `${value / 60000}m`,
+        example: "5m",
+      });
+      const schema = defineSchema({
+        TTL: env.custom("minutes", { default: 120000 }),
+        TIMEOUT: env.custom("minutes"),
+      });
+
+      await EnvFileHandler.generateExample(schema);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain("# Type: minutes");
+      expect(content).toContain("# Default: 2m");
+      expect(content).toContain("TTL=2m");
+      expect(content).toContain("TIMEOUT=5m");
+    });
+
+    it("should write duration, bytes and date values in parseable form", async () => {
+      const schema = defineSchema({
+        IDLE_TIMEOUT: env.duration({ default: 5400000 }),
+        MAX_UPLOAD: env.bytes(),
+        LAUNCH_AT: env.date({ default: new Date("2024-05-01T12:00:00Z") }),
+      });
+
+      await EnvFileHandler.generateExample(schema);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain("# Default: 1h30m");
+      expect(content).toContain("IDLE_TIMEOUT=1h30m");
+      expect(content).toContain("MAX_UPLOAD=10MB");
+      expect(content).toContain("LAUNCH_AT=2024-05-01T12:00:00.000Z");
+    });
+
+    it("should document array element types and separators", async () => {
+      const schema = defineSchema({
+        ORIGINS: env.array(env.url(), { minItems: 1 }),
+        PORTS: env.array(env.number(), { separator: ";", default: [80, 443] }),
+      });
+
+      await EnvFileHandler.generateExample(schema);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain('# Type: array of url (separated by ",")');
+      expect(content).toContain("# Constraints: min items 1");
+      expect(content).toContain(
+        "ORIGINS=https://example.com,https://example.com",
+      );
+      expect(content).toContain("PORTS=80;443");
+    });
+
+    it("should document JSON shapes with a matching example", async () => {
+      const schema = defineSchema({
+        FEATURES: env.json({
+          shape: shape.object({
+            beta: shape.boolean(),
+            tags: shape.optional(shape.array(shape.string())),
+          }),
+        }),
+        LIMITS: env.json({
+          shape: shape.object({ rps: shape.number() }),
+          default: { rps: 10 },
+        }),
+      });
+
+      await EnvFileHandler.generateExample(schema);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain("# Shape: { beta: boolean, tags?: string[] }");
+      expect(content).toContain('FEATURES={"beta":false}');
+      expect(content).toContain('# Default: {"rps":10}');
+      expect(content).toContain('LIMITS={"rps":10}');
+    });
+
+    it("should use environment keys of nested schemas", async () => {
+      const schema = defineSchema({
+        database: { url: env.url({ required: true }) },
+        redis: group("REDIS_", { ttl: env.number({ default: 60 }) }),
+      });
+
+      await EnvFileHandler.generateExample(schema);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain(
+        "# Config: database.url\n# Type: url\n# Required: true\nDATABASE_URL=https://example.com",
+      );
+      expect(content).toContain("# Config: redis.ttl");
+      expect(content).toContain("REDIS_TTL=60");
+    });
+
+    it("should document deprecations and aliases", async () => {
+      await EnvFileHandler.generateExample(
+        defineSchema({
+          DATABASE_URL: env.url({ aliases: ["DB_URL"] }),
+          LEGACY: env.string({ deprecated: "Use MODERN instead" }),
+        }),
+      );
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain("# Deprecated aliases: DB_URL\nDATABASE_URL=");
+      expect(content).toContain("# Deprecated: Use MODERN instead\n");
+    });
+
+    it("should leave sensitive variables empty", async () => {
+      await EnvFileHandler.generateExample(
+        defineSchema({
+          SMTP_PASS: env.string({ sensitive: true, default: "hunter22" }),
+        }),
+      );
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain("# Sensitive: true\nSMTP_PASS=\n");
+      expect(content).not.toContain("hunter22");
+    });
+
     it("should use custom output path", async () => {
       const customPath = ".env.custom";
       await EnvFileHandler.generateExample(testSchema, customPath);
@@ -149,6 +324,36 @@ describe("EnvFileHandler", () => {
       expect(result.invalid).toContain("DEBUG");
     });
 
+    it("should report nested variables by environment key", async () => {
+      mockedFs.readFile.mockResolvedValue("DB_PORT=abc");
+      const schema = defineSchema({
+        db: group("DB_", {
+          host: env.string({ required: true }),
+          port: env.number(),
+        }),
+      });
+
+      const result = await EnvFileHandler.validate(schema);
+
+      expect(result.missing).toEqual(["DB_HOST"]);
+      expect(result.invalid).toEqual(["DB_PORT"]);
+    });
+
+    it("should evaluate conditional requirements", async () => {
+      mockedFs.readFile.mockResolvedValue("SMTP_HOST=smtp.example.com");
+      const schema = defineSchema({
+        SMTP_HOST: env.string(),
+        SMTP_PASS: env.string({
+          required: (values) => values.SMTP_HOST !== undefined,
+        }),
+      });
+
+      const result = await EnvFileHandler.validate(schema);
+
+      expect(result.valid).toEqual(["SMTP_HOST"]);
+      expect(result.missing).toEqual(["SMTP_PASS"]);
+    });
+
     it("should not require variables with defaults", async () => {
       mockedFs.readFile.mockResolvedValue(
         "PORT=3000\nAPI_URL=https://api.example.com",
@@ -159,6 +364,38 @@ describe("EnvFileHandler", () => {
       expect(result.missing).not.toContain("NODE_ENV");
       expect(result.missing).not.toContain("DEBUG");
     });
+
+    it("should accept aliases and collect warnings", async () => {
+      mockedFs.readFile.mockResolvedValue(
+        "PORT=3000\nAPI_ENDPOINT=https://api.example.com",
+      );
+
+      const result = await EnvFileHandler.validate(
+        defineSchema({
+          PORT: env.number(),
+          API_URL: env.url({ required: true, aliases: ["API_ENDPOINT"] }),
+        }),
+      );
+
+      expect(result.valid).toEqual(["PORT", "API_URL"]);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ key: "API_URL", alias: "API_ENDPOINT" }),
+      ]);
+    });
+
+    it("should report unknown variables in strict mode", async () => {
+      mockedFs.readFile.mockResolvedValue(
+        "PORT=3000\nAPI_URL=https://api.example.com\nDEBGU=true",
+      );
+
+      const result = await EnvFileHandler.validate(testSchema, ".env", {
+        strict: true,
+      });
+
+      expect(result.unknown).toEqual(["DEBGU"]);
+      expect(result.suggestions).toEqual({ DEBGU: "DEBUG" });
+      expect(result.valid).toContain("PORT");
+    });
   });
 
   describe("sync", () => {
@@ -224,5 +461,167 @@ describe("EnvFileHandler", () => {
       expect(content).toContain("PORT=3000");
       expect(content).toContain("API_URL=https://api.example.com");
     });
+
+    it("should append missing keys and keep existing content", async () => {
+      const target =
+        "# Production\nAPI_URL=https://prod.com\n\nLEGACY=1\nPORT=\n";
+      mockedFs.readFile.mockResolvedValueOnce("PORT=3000\nDEBUG=true");
+      mockedFs.readFile.mockResolvedValueOnce(target);
+
+      const [result] = await EnvFileHandler.sync(testSchema, ".env", [
+        ".env.production",
+      ]);
+
+      expect(mockedFs.writeFile).toHaveBeenCalledWith(
+        ".env.production",
+        `${target}# Added by sync from .env\nNODE_ENV=development\nDEBUG=true\n`,
+      );
+      expect(result).toMatchObject({
+        file: ".env.production",
+        added: ["NODE_ENV", "DEBUG"],
+        unknown: [],
+      });
+    });
+
+    it("should not touch targets that are up to date", async () => {
+      mockedFs.readFile.mockResolvedValueOnce("");
+      mockedFs.readFile.mockResolvedValueOnce(
+        "NODE_ENV=test\nPORT=1\nAPI_URL=https://a.com\nDEBUG=false",
+      );
+
+      const [result] = await EnvFileHandler.sync(testSchema, ".env", [
+        ".env.test",
+      ]);
+
+      expect(mockedFs.writeFile).not.toHaveBeenCalled();
+      expect(result.patch).toBe("");
+    });
+
+    it("should flag keys missing from the schema", async () => {
+      mockedFs.readFile.mockResolvedValueOnce("");
+      mockedFs.readFile.mockResolvedValueOnce("LEGACY=1\nPORT=1");
+
+      const [result] = await EnvFileHandler.sync(
+        testSchema,
+        ".env",
+        [".env.test"],
+        { flagUnknown: true },
+      );
+
+      expect(result.unknown).toEqual(["LEGACY"]);
+      expect(mockedFs.writeFile.mock.calls[0][1]).toContain("LEGACY=1");
+    });
+
+    it("should copy references unexpanded and quote values when needed", async () => {
+      mockedFs.readFile.mockResolvedValueOnce(
+        'API_URL=https://${HOST}/v1\nNODE_ENV="dev elopment"',
+      );
+      mockedFs.readFile.mockResolvedValueOnce("PORT=1\nDEBUG=true");
+
+      await EnvFileHandler.sync(testSchema, ".env", [".env.test"]);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain("API_URL=https://${HOST}/v1\n");
+      expect(content).toContain("NODE_ENV='dev elopment'\n");
+    });
+
+    it("should quote literal dollars and backslashes so they read back", async () => {
+      mockedFs.readFile.mockResolvedValueOnce(
+        "API_URL='https://a.com/pa$word'\nNODE_ENV=C:\\env",
+      );
+      mockedFs.readFile.mockResolvedValueOnce("PORT=1\nDEBUG=true");
+
+      await EnvFileHandler.sync(testSchema, ".env", [".env.test"]);
+
+      const content = mockedFs.writeFile.mock.calls[0][1] as string;
+      expect(content).toContain("API_URL='https://a.com/pa$word'\n");
+      expect(parseEnvContent(content, { env: {} })).toMatchObject({
+        API_URL: "https://a.com/pa$word",
+        NODE_ENV: "C:\\env",
+      });
+    });
+
+    it("should return a patch without writing in dry-run mode", async () => {
+      mockedFs.readFile.mockResolvedValueOnce("");
+      mockedFs.readFile.mockResolvedValueOnce(
+        "NODE_ENV=test\nAPI_URL=https://a.com",
+      );
+
+      const [result] = await EnvFileHandler.sync(
+        testSchema,
+        ".env",
+        [".env.test"],
+        { dryRun: true },
+      );
+
+      expect(mockedFs.writeFile).not.toHaveBeenCalled();
+      expect(result.patch).toBe(
+        [
+          "--- .env.test",
+          "+++ .env.test",
+          "@@ -2,1 +2,4 @@",
+          "-API_URL=https://a.com",
+          "\\ No newline at end of file",
+          "+API_URL=https://a.com",
+          "+# Added by sync from .env",
+          "+PORT=3000",
+          "+DEBUG=false",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("should treat aliases as present and copy them from the source", async () => {
+      mockedFs.readFile.mockResolvedValueOnce("OLD_PORT=1\nOLD_HOST=a");
+      mockedFs.readFile.mockResolvedValueOnce("OLD_PORT=2");
+
+      const [result] = await EnvFileHandler.sync(
+        defineSchema({
+          PORT: env.number({ aliases: ["OLD_PORT"] }),
+          HOST: env.string({ aliases: ["OLD_HOST"] }),
+        }),
+        ".env",
+        [".env.test"],
+        { flagUnknown: true },
+      );
+
+      expect(result.added).toEqual(["HOST"]);
+      expect(result.unknown).toEqual([]);
+      expect(mockedFs.writeFile.mock.calls[0][1]).toContain("HOST=a\n");
+    });
+
+    it("should never copy sensitive values from the source", async () => {
+      mockedFs.readFile.mockResolvedValueOnce("PORT=1\nSECRET=s3cr3t");
+      mockedFs.readFile.mockResolvedValueOnce("");
+
+      await EnvFileHandler.sync(
+        defineSchema({
+          PORT: env.number(),
+          SECRET: env.string({ sensitive: true }),
+        }),
+        ".env",
+        [".env.test"],
+      );
+
+      expect(mockedFs.writeFile.mock.calls[0][1]).toBe(
+        "# Added by sync from .env\nPORT=1\nSECRET=\n",
+      );
+    });
+
+    it("should render patches for new files", async () => {
+      mockedFs.readFile.mockResolvedValueOnce("");
+      mockedFs.readFile.mockRejectedValueOnce({ code: "ENOENT" });
+
+      const [result] = await EnvFileHandler.sync(
+        defineSchema({ PORT: env.number({ default: 80 }) }),
+        ".env",
+        [".env.test"],
+        { dryRun: true },
+      );
+
+      expect(result.patch).toBe(
+        "--- .env.test\n+++ .env.test\n@@ -0,0 +1,2 @@\n+# Added by sync from .env\n+PORT=80\n",
+      );
+    });
   });
 });
@@ -0,0 +1,237 @@
+import fs from "fs/promises";
+import { readFileSync } from "fs";
+import path from "path";
+import { EnvLoader, loadEnv } from "../loader";
+import { defineSchema, env } from "../builder";
+import { ValidationError } from "../validator";
+
+jest.mock("fs/promises");
+jest.mock("fs");
+const mockedFs = jest.mocked(fs);
+const mockedReadFileSync = jest.mocked(readFileSync);
+
+describe("EnvLoader", () => {
+  const dir = "/app";
+  const schema = defineSchema({
+    PORT: env.number({ required: true }),
+    HOST: env.string({ default: "localhost" }),
+  });
+
+  const mockFiles = (files: Record<string, string>) => {
+    const read = (file: string) => {
+      const name = path.relative(dir, file);
+      if (files[name] === undefined) {
+        throw Object.assign(new Error("not found"), { code: "ENOENT" });
+      }
+      return files[name];
+    };
+    mockedFs.readFile.mockImplementation((async (file: string) =>
+      read(file)) as typeof fs.readFile);
+    mockedReadFileSync.mockImplementation(read as typeof readFileSync);
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it("should list the cascade for the current environment", () => {
+    expect(EnvLoader.files({ dir, nodeEnv: "production" })).toEqual([
+      "/app/.env",
+      "/app/.env.local",
+      "/app/.env.production",
+      "/app/.env.production.local",
+    ]);
+    expect(EnvLoader.files({ dir, env: {} })).toEqual([
+      "/app/.env",
+      "/app/.env.local",
+    ]);
+  });
+
+  it("should merge layers in precedence order and record sources", async () => {
+    mockFiles({
+      ".env": "PORT=1000\nHOST=base\nLOG=info",
+      ".env.local": "HOST=local",
+      ".env.production": "PORT=2000",
+      ".env.production.local": "PORT=3000",
+    });
+
+    const loaded = await EnvLoader.read({
+      dir,
+      env: { NODE_ENV: "production", LOG: "debug" },
+    });
+
+    expect(loaded.values).toEqual({
+      PORT: "3000",
+      HOST: "local",
+      LOG: "debug",
+      NODE_ENV: "production",
+    });
+    expect(loaded.sources).toEqual({
+      PORT: "/app/.env.production.local",
+      HOST: "/app/.env.local",
+      LOG: "process.env",
+      NODE_ENV: "process.env",
+    });
+  });
+
+  it("should expand references to lower-precedence files", async () => {
+    mockFiles({
+      ".env": "HOST=base\nPORT=80",
+      ".env.local": "HOST=local\nURL=http://$HOST:$PORT",
+    });
+
+    const loaded = await EnvLoader.read({ dir, env: {} });
+
+    expect(loaded.values.URL).toBe("http://local:80");
+  });
+
+  it("should validate the merged values", async () => {
+    mockFiles({ ".env": "PORT=8080" });
+
+    const result = await EnvLoader.load(schema, { dir, env: {} });
+
+    expect(result.env).toEqual({ PORT: 8080, HOST: "localhost" });
+    expect(result.sources.PORT).toBe("/app/.env");
+  });
+
+  it("should name the source file of invalid values", async () => {
+    mockFiles({ ".env": "PORT=3000", ".env.test.local": "PORT=abc" });
+
+    const error = await EnvLoader.load(schema, {
+      dir,
+      nodeEnv: "test",
+      env: {},
+    }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors[0]).toMatchObject({
+      key: "PORT",
+      received: "abc",
+      source: "/app/.env.test.local",
+    });
+    expect(error.format()).toContain(
+      'Invalid number (got "abc") (from /app/.env.test.local)',
+    );
+  });
+
+  it("should dump values with their sources", async () => {
+    mockFiles({ ".env": "PORT=3000\nOTHER=1" });
+
+    const loaded = await EnvLoader.read({ dir, env: {} });
+
+    expect(EnvLoader.dump(loaded, schema)).toBe(
+      "PORT=3000 (from /app/.env)\nHOST (not set)",
+    );
+  });
+
+  it("should mask sensitive values in the dump", async () => {
+    mockFiles({ ".env": "PORT=3000\nTOKEN=abc" });
+
+    const loaded = await EnvLoader.read({ dir, env: {} });
+
+    expect(
+      EnvLoader.dump(loaded, { TOKEN: env.string({ sensitive: true }) }),
+    ).toBe("TOKEN=[REDACTED] (from /app/.env)");
+  });
+
+  it("should check file keys and prefixed process variables in strict mode", async () => {
+    mockFiles({ ".env": "PORT=3000\nPROT=3000" });
+    const values = { SHELL: "/bin/sh", APP_HOTS: "x", APP_OTHER: "y" };
+
+    const error = await EnvLoader.load(schema, {
+      dir,
+      env: values,
+      strict: true,
+      prefixes: ["APP_"],
+    }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors.map(({ key }: { key: string }) => key)).toEqual([
+      "PROT",
+      "APP_HOTS",
+      "APP_OTHER",
+    ]);
+    expect(() =>
+      loadEnv(schema, { dir, env: { SHELL: "/bin/sh" }, strict: true }),
+    ).toThrow("Environment validation failed");
+    mockFiles({ ".env": "PORT=3000" });
+    expect(
+      loadEnv(schema, { dir, env: { SHELL: "/bin/sh" }, strict: true }),
+    ).toEqual({ PORT: 3000, HOST: "localhost" });
+  });
+
+  describe("loadEnv", () => {
+    it("should load and validate synchronously", () => {
+      mockFiles({ ".env": "PORT=3000", ".env.local": "PORT=4000" });
+
+      expect(loadEnv(schema, { dir, env: {} })).toEqual({
+        PORT: 4000,
+        HOST: "localhost",
+      });
+      expect(mockedFs.readFile).not.toHaveBeenCalled();
+    });
+
+    it("should read explicit files relative to the directory", () => {
+      mockFiles({ "config/app.env": "PORT=5000" });
+
+      expect(
+        loadEnv(schema, { dir, env: {}, files: ["config/app.env"] }),
+      ).toMatchObject({ PORT: 5000 });
+    });
+
+    it("should keep variables already set unless override is set", () => {
+      mockFiles({ ".env": "PORT=3000" });
+
+      expect(loadEnv(schema, { dir, env: { PORT: "1" } }).PORT).toBe(1);
+      expect(
+        loadEnv(schema, { dir, env: { PORT: "1" }, override: true }).PORT,
+      ).toBe(3000);
+    });
+
+    it("should populate the environment with values and defaults", () => {
+      mockFiles({ ".env": "PORT=3000\nEXTRA=yes" });
+      const target: Record<string, string | undefined> = { PORT: "8080" };
+
+      loadEnv(schema, { dir, env: target, populate: true });
+
+      expect(target).toEqual({ PORT: "8080", EXTRA: "yes", HOST: "localhost" });
+
+      loadEnv(schema, { dir, env: target, populate: true, override: true });
+
+      expect(target.PORT).toBe("3000");
+    });
+
+    it("should not populate defaults for variables read from aliases", () => {
+      mockFiles({});
+      const target: Record<string, string | undefined> = {
+        DB_URL: "postgres://x",
+      };
+      const aliasSchema = defineSchema({
+        DATABASE_URL: env.url({
+          aliases: ["DB_URL"],
+          default: "postgres://localhost",
+        }),
+      });
+
+      const config = loadEnv(aliasSchema, {
+        dir,
+        env: target,
+        populate: true,
+        onWarning: () => undefined,
+      });
+
+      expect(config.DATABASE_URL).toBe("postgres://x");
+      expect(target).toEqual({ DB_URL: "postgres://x" });
+    });
+
+    it("should not populate the environment when validation fails", () => {
+      mockFiles({ ".env": "PORT=abc" });
+      const target: Record<string, string | undefined> = {};
+
+      expect(() =>
+        loadEnv(schema, { dir, env: target, populate: true }),
+      ).toThrow(ValidationError);
+      expect(target).toEqual({});
+    });
+  });
+});
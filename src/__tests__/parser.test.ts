@@ -0,0 +1,216 @@
+import { EnvParseError, parseEnvContent, tokenizeEnv } from "../parser";
+
+describe("parseEnvContent", () => {
+  it("should parse basic assignments", () => {
+    expect(parseEnvContent("PORT=3000\nHOST = localhost \n")).toEqual({
+      PORT: "3000",
+      HOST: "localhost",
+    });
+  });
+
+  it("should strip the export prefix", () => {
+    expect(parseEnvContent("export FOO=bar\nexport\tBAZ='qux'")).toEqual({
+      FOO: "bar",
+      BAZ: "qux",
+    });
+  });
+
+  it("should strip inline comments from unquoted values", () => {
+    expect(
+      parseEnvContent(
+        "FOO=bar # comment\nURL=https://a.com/#anchor\nEMPTY= # none",
+      ),
+    ).toEqual({
+      FOO: "bar",
+      URL: "https://a.com/#anchor",
+      EMPTY: "",
+    });
+  });
+
+  it("should keep # inside quoted values and allow trailing comments", () => {
+    expect(parseEnvContent("COLOR=\"#fff\" # white\nTAG='#1'")).toEqual({
+      COLOR: "#fff",
+      TAG: "#1",
+    });
+  });
+
+  it("should handle CRLF line endings", () => {
+    expect(parseEnvContent('FOO=bar\r\nBAZ="qux"\r\n\r\n# note\r\n')).toEqual({
+      FOO: "bar",
+      BAZ: "qux",
+    });
+  });
+
+  it("should parse multiline quoted values", () => {
+    const content = [
+      'PRIVATE_KEY="-----BEGIN KEY-----',
+      "abc",
+      '-----END KEY-----"',
+      "NEXT=1",
+    ].join("\n");
+
+    expect(parseEnvContent(content)).toEqual({
+      PRIVATE_KEY: "-----BEGIN KEY-----\nabc\n-----END KEY-----",
+      NEXT: "1",
+    });
+  });
+
+  it("should expand escapes in double quotes only", () => {
+    expect(
+      parseEnvContent(
+        'DOUBLE="a\\nb\\tc \\"d\\" \\\\"\nSINGLE=\'a\\nb\'\nBARE=a\\nb',
+      ),
+    ).toEqual({
+      DOUBLE: 'a\nb\tc "d" \\',
+      SINGLE: "a\\nb",
+      BARE: "a\\nb",
+    });
+  });
+
+  it("should let later assignments win", () => {
+    expect(parseEnvContent("FOO=1\nFOO=2")).toEqual({ FOO: "2" });
+  });
+
+  it("should record the quote style and line of each entry", () => {
+    expect(tokenizeEnv("A=1\n\nB='2'\nC=\"3\n4\"\nD=`5`")).toEqual([
+      { key: "A", value: "1", line: 1, column: 1 },
+      { key: "B", value: "2", quote: "'", line: 3, column: 1 },
+      { key: "C", value: "3\n4", quote: '"', raw: "3\n4", line: 4, column: 1 },
+      { key: "D", value: "5", quote: "`", line: 6, column: 1 },
+    ]);
+  });
+
+  describe("malformed content", () => {
+    const parseError = (content: string) => {
+      try {
+        parseEnvContent(content, { file: ".env" });
+      } catch (error) {
+        return error as EnvParseError;
+      }
+      throw new Error("Should have thrown EnvParseError");
+    };
+
+    it("should report lines without an assignment", () => {
+      const error = parseError("FOO=1\n  BAR baz");
+      expect(error).toBeInstanceOf(EnvParseError);
+      expect(error.line).toBe(2);
+      expect(error.column).toBe(7);
+      expect(error.message).toBe(
+        'Expected "=" after BAR at line 2, column 7 of .env',
+      );
+    });
+
+    it("should report invalid variable names", () => {
+      const error = parseError("1FOO=bar");
+      expect(error.reason).toBe("Invalid variable name");
+      expect([error.line, error.column]).toEqual([1, 1]);
+    });
+
+    it("should report unterminated quotes at the opening quote", () => {
+      const error = parseError('A=1\nKEY="abc\nmore');
+      expect(error.reason).toBe('Unterminated " quoted value for KEY');
+      expect([error.line, error.column]).toEqual([2, 5]);
+    });
+
+    it("should report characters after a closing quote", () => {
+      const error = parseError("KEY='abc' def");
+      expect(error.reason).toBe(
+        "Unexpected characters after quoted value of KEY",
+      );
+      expect([error.line, error.column]).toEqual([1, 11]);
+    });
+  });
+
+  describe("variable expansion", () => {
+    const parse = (content: string, env: Record<string, string> = {}) =>
+      parseEnvContent(content, { env });
+
+    it("should expand references to other keys", () => {
+      expect(
+        parse(
+          [
+            "DB_USER=app",
+            "DB_HOST=db.local",
+            'DATABASE_URL="postgres://${DB_USER}@$DB_HOST/app"',
+          ].join("\n"),
+        ).DATABASE_URL,
+      ).toBe("postgres://app@db.local/app");
+    });
+
+    it("should resolve references to later keys", () => {
+      expect(parse("URL=http://$HOST\nHOST=example.com").URL).toBe(
+        "http://example.com",
+      );
+    });
+
+    it("should prefer the provided env over keys of the file", () => {
+      expect(parse("HOST=file\nURL=$HOST", { HOST: "process" }).URL).toBe(
+        "process",
+      );
+    });
+
+    it("should fall back to defaults after keys of the file", () => {
+      expect(
+        parseEnvContent("HOST=file\nURL=$HOST:$PORT", {
+          env: {},
+          defaults: { HOST: "base", PORT: "80" },
+        }).URL,
+      ).toBe("file:80");
+    });
+
+    it("should apply defaults for unset or empty variables", () => {
+      expect(
+        parse("EMPTY=\nA=${PORT:-3000}\nB=${EMPTY:-fallback}\nC=${X:-$A}"),
+      ).toMatchObject({ A: "3000", B: "fallback", C: "3000" });
+    });
+
+    it("should replace unknown variables with an empty string", () => {
+      expect(parse("A=x${MISSING}y").A).toBe("xy");
+    });
+
+    it("should fail on required variables that are unset", () => {
+      expect(() =>
+        parseEnvContent("\nSECRET=${API_KEY:?API_KEY must be set}", {
+          env: {},
+          file: ".env",
+        }),
+      ).toThrow(new EnvParseError("API_KEY must be set", 2, 1, ".env"));
+      expect(() => parse("A=${B:?}")).toThrow("B is not set at line 1");
+    });
+
+    it("should keep escaped dollars and single-quoted values literal", () => {
+      expect(
+        parse("HOST=x\nA=\\$HOST\nB=\"cost \\$5\"\nC='$HOST'"),
+      ).toMatchObject({ A: "$HOST", B: "cost $5", C: "$HOST" });
+    });
+
+    it("should expand references after escaped backslashes", () => {
+      expect(
+        parse('USER=me\nA="hi\\\\$USER"\nB="hi\\$USER"\nC=\'hi\\\\$USER\''),
+      ).toMatchObject({ A: "hi\\me", B: "hi$USER", C: "hi\\\\$USER" });
+    });
+
+    it("should detect circular references", () => {
+      expect(() => parse("A=$B\nB=${C}\nC=$A")).toThrow(
+        "Circular reference A -> B -> C -> A at line 1, column 1",
+      );
+    });
+
+    it("should leave values untouched when expansion is disabled", () => {
+      expect(parseEnvContent("A=1\nB=${A}\nC=\\$A", { expand: false })).toEqual(
+        { A: "1", B: "${A}", C: "\\$A" },
+      );
+    });
+
+    it("should default to process.env for lookups", () => {
+      process.env.ENV_VALIDATOR_TEST_HOST = "from-process";
+      try {
+        expect(parseEnvContent("URL=$ENV_VALIDATOR_TEST_HOST").URL).toBe(
+          "from-process",
+        );
+      } finally {
+        delete process.env.ENV_VALIDATOR_TEST_HOST;
+      }
+    });
+  });
+});
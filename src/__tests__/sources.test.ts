@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { defineSchema, env } from "../builder";
+import { SourceError, readSources, resolveEnv, sources } from "../sources";
+import { ValidationError } from "../validator";
+
+describe("Sources", () => {
+  let dir: string;
+  const file = (name: string, content: string) => {
+    const target = join(dir, name);
+    writeFileSync(target, content);
+    return target;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "env-validator-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should let earlier sources win by default", async () => {
+    const loaded = await readSources([
+      sources.processEnv({ PORT: "8080" }),
+      sources.memory({ PORT: 3000, HOST: "localhost" }, "defaults"),
+    ]);
+
+    expect(loaded).toEqual({
+      values: { PORT: "8080", HOST: "localhost" },
+      sources: { PORT: "process.env", HOST: "defaults" },
+    });
+  });
+
+  it("should let later sources win with last-wins precedence", async () => {
+    const dotenv = file(".env", "PORT=3000\nHOST=base");
+
+    const loaded = await readSources(
+      [sources.dotenv(dotenv), sources.memory({ PORT: "4000" })],
+      { precedence: "last-wins" },
+    );
+
+    expect(loaded.values).toEqual({ PORT: "4000", HOST: "base" });
+    expect(loaded.sources).toEqual({ PORT: "memory", HOST: dotenv });
+  });
+
+  it("should read JSON and custom config files as strings", async () => {
+    const json = file(
+      "config.json",
+      JSON.stringify({ PORT: 3000, DEBUG: true, ORIGINS: ["a", "b"], X: null }),
+    );
+    const ini = file("config.ini", "REGION = eu-west-1");
+    const parseIni = (content: string) =>
+      Object.fromEntries([content.split(" = ")]);
+
+    const loaded = await readSources([
+      sources.json(json),
+      sources.file(ini, parseIni),
+      sources.json(join(dir, "missing.json")),
+    ]);
+
+    expect(loaded.values).toEqual({
+      PORT: "3000",
+      DEBUG: "true",
+      ORIGINS: '["a","b"]',
+      REGION: "eu-west-1",
+    });
+  });
+
+  it("should resolve a schema and name sources in issues", async () => {
+    const secretsManager = {
+      getSecrets: jest.fn(async () => ({ DB_PASSWORD: "s3cret" })),
+    };
+    const schema = defineSchema({
+      PORT: env.number({ required: true }),
+      DB_PASSWORD: env.string({ required: true, sensitive: true }),
+    });
+    const chain = (port: string) => [
+      sources.memory({ PORT: port }, "overrides"),
+      sources.custom("secrets-manager", () => secretsManager.getSecrets()),
+    ];
+
+    const result = await resolveEnv(schema, chain("3000"));
+
+    expect(result.env).toEqual({ PORT: 3000, DB_PASSWORD: "s3cret" });
+    expect(result.sources.DB_PASSWORD).toBe("secrets-manager");
+
+    const error = await resolveEnv(schema, chain("abc")).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors[0]).toMatchObject({ key: "PORT", source: "overrides" });
+  });
+
+  it("should name the source that cannot be read", async () => {
+    const failing = sources.custom("vault", async () => {
+      throw new Error("connection refused");
+    });
+
+    await expect(readSources([failing])).rejects.toThrow(
+      new SourceError("vault", "connection refused"),
+    );
+    await expect(
+      readSources([sources.json(file("bad.json", "[1]"))]),
+    ).rejects.toThrow("expected an object of variables");
+  });
+});
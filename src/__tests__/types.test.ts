@@ -0,0 +1,176 @@
+import { EnvValidator } from "../validator";
+import { env, defineSchema, group } from "../builder";
+import { shape } from "../shape";
+import type { ValidatedEnv } from "../types";
+
+type Equal<A, B> =
+  (<G>() => G extends A ? 1 : 2) extends <G>() => G extends B ? 1 : 2
+    ? true
+    : false;
+
+/**
+ * Compile-time assertion; ts-jest fails the suite when the argument is not `true`.
+ */
+const expectType = <T extends true>(): T => true as T;
+
+describe("ValidatedEnv inference", () => {
+  const schema = defineSchema({
+    REQUIRED: env.number({ required: true }),
+    DEFAULTED: env.number({ default: 3000 }),
+    REQUIRED_DEFAULTED: env.string({ required: true, default: "dev" }),
+    OPTIONAL: env.string(),
+    OPTIONAL_EMPTY: env.boolean({}),
+    EXPLICIT_OPTIONAL: env.url({ required: false }),
+    VALIDATED: env.number({ validator: (value) => value > 0 }),
+    CONDITIONAL: env.string({
+      required: (values) => values.OPTIONAL !== undefined,
+    }),
+  });
+  type Env = ValidatedEnv<typeof schema>;
+
+  it("should type required variables as non-nullable", () => {
+    expectType<Equal<Env["REQUIRED"], number>>();
+    expectType<Equal<Env["REQUIRED_DEFAULTED"], string>>();
+  });
+
+  it("should type defaulted variables as non-nullable", () => {
+    expectType<Equal<Env["DEFAULTED"], number>>();
+  });
+
+  it("should type optional variables without default as possibly undefined", () => {
+    expectType<Equal<Env["OPTIONAL"], string | undefined>>();
+    expectType<Equal<Env["OPTIONAL_EMPTY"], boolean | undefined>>();
+    expectType<Equal<Env["EXPLICIT_OPTIONAL"], string | undefined>>();
+    expectType<Equal<Env["VALIDATED"], number | undefined>>();
+    expectType<Equal<Env["CONDITIONAL"], string | undefined>>();
+  });
+
+  it("should infer the same types from plain object schemas", () => {
+    const plain = {
+      PORT: { type: "number", required: true },
+      DEBUG: { type: "boolean", default: false },
+      NAME: { type: "string" },
+    } as const;
+    type PlainEnv = ValidatedEnv<typeof plain>;
+
+    expectType<Equal<PlainEnv["PORT"], number>>();
+    expectType<Equal<PlainEnv["DEBUG"], boolean>>();
+    expectType<Equal<PlainEnv["NAME"], string | undefined>>();
+  });
+
+  it("should infer enum variables as the union of their choices", () => {
+    const enums = defineSchema({
+      NODE_ENV: env.enum(["development", "production"] as const, {
+        required: true,
+      }),
+      LOG_LEVEL: env.enum(["info", "debug"], { default: "info" }),
+      REGION: env.enum(["eu", "us"]),
+    });
+    type EnumEnv = ValidatedEnv<typeof enums>;
+
+    expectType<Equal<EnumEnv["NODE_ENV"], "development" | "production">>();
+    expectType<Equal<EnumEnv["LOG_LEVEL"], "info" | "debug">>();
+    expectType<Equal<EnumEnv["REGION"], "eu" | "us" | undefined>>();
+  });
+
+  it("should infer the return type of transforms", () => {
+    const transformed = defineSchema({
+      ORIGINS: env.string({
+        required: true,
+        transform: (value) => value.split(","),
+      }),
+      TIMEOUT: env.number({ default: 5, transform: (value) => BigInt(value) }),
+      LEVEL: env.enum(["info", "debug"], {
+        transform: (value) => value.toUpperCase(),
+      }),
+    });
+    type TransformedEnv = ValidatedEnv<typeof transformed>;
+
+    expectType<Equal<TransformedEnv["ORIGINS"], string[]>>();
+    expectType<Equal<TransformedEnv["TIMEOUT"], bigint>>();
+    expectType<Equal<TransformedEnv["LEVEL"], string | undefined>>();
+  });
+
+  it("should infer duration, bytes and date types", () => {
+    const units = defineSchema({
+      TIMEOUT: env.duration({ default: 1000 }),
+      MAX_UPLOAD: env.bytes({ required: true }),
+      LAUNCH_AT: env.date(),
+    });
+    type UnitsEnv = ValidatedEnv<typeof units>;
+
+    expectType<Equal<UnitsEnv["TIMEOUT"], number>>();
+    expectType<Equal<UnitsEnv["MAX_UPLOAD"], number>>();
+    expectType<Equal<UnitsEnv["LAUNCH_AT"], Date | undefined>>();
+  });
+
+  it("should infer array element types", () => {
+    const arrays = defineSchema({
+      ORIGINS: env.array(env.url(), { required: true }),
+      PORTS: env.array(env.number(), { default: [80] }),
+      LEVELS: env.array(env.enum(["info", "debug"])),
+      LENGTHS: env.array(env.string({ transform: (value) => value.length }), {
+        required: true,
+      }),
+    });
+    type ArrayEnv = ValidatedEnv<typeof arrays>;
+
+    expectType<Equal<ArrayEnv["ORIGINS"], string[]>>();
+    expectType<Equal<ArrayEnv["PORTS"], number[]>>();
+    expectType<Equal<ArrayEnv["LEVELS"], ("info" | "debug")[] | undefined>>();
+    expectType<Equal<ArrayEnv["LENGTHS"], number[]>>();
+  });
+
+  it("should infer JSON types from their shape", () => {
+    const json = defineSchema({
+      FEATURES: env.json({
+        shape: shape.object({
+          beta: shape.boolean(),
+          mode: shape.optional(shape.enum(["a", "b"])),
+          tags: shape.array(shape.string()),
+        }),
+        default: { beta: false, tags: [] },
+      }),
+      ANYTHING: env.json(),
+    });
+    type JsonEnv = ValidatedEnv<typeof json>;
+
+    expectType<
+      Equal<
+        JsonEnv["FEATURES"],
+        { beta: boolean; tags: string[]; mode?: "a" | "b" | undefined }
+      >
+    >();
+    expectType<Equal<JsonEnv["ANYTHING"], any>>();
+  });
+
+  it("should infer nested and grouped schemas", () => {
+    const nested = defineSchema({
+      PORT: env.number({ required: true }),
+      database: {
+        url: env.url({ key: "DATABASE_URL", required: true }),
+        replica: { url: env.url() },
+      },
+      redis: group("REDIS_", {
+        ttl: env.number({ default: 60 }),
+      }),
+    });
+    type NestedEnv = ValidatedEnv<typeof nested>;
+
+    expectType<Equal<NestedEnv["PORT"], number>>();
+    expectType<Equal<NestedEnv["database"]["url"], string>>();
+    expectType<
+      Equal<NestedEnv["database"]["replica"]["url"], string | undefined>
+    >();
+    expectType<Equal<NestedEnv["redis"]["ttl"], number>>();
+  });
+
+  it("should match the runtime values returned by validate", () => {
+    const result = EnvValidator.validate(schema, { REQUIRED: "1" });
+
+    expectType<Equal<typeof result, Env>>();
+    expect(result.REQUIRED).toBe(1);
+    expect(result.DEFAULTED).toBe(3000);
+    expect(result.OPTIONAL).toBeUndefined();
+  });
+});
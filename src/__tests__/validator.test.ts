@@ -1,5 +1,20 @@
 import { EnvValidator, ValidationError } from "../validator";
-import { env, defineSchema } from "../builder";
+import { env, defineSchema, group } from "../builder";
+import { registerType } from "../registry";
+import { shape } from "../shape";
+import { inspect } from "util";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { editDistance, suggestKey } from "../suggest";
+import type { SchemaDefinition } from "../types";
+
+declare module "../types" {
+  interface TypeMap {
+    ipv4: string;
+    seconds: number;
+  }
+}
 
 describe("EnvValidator", () => {
   const mockEnv = {
@@ -92,4 +107,1462 @@ describe("EnvValidator", () => {
       }
     });
   });
+
+  describe("Enum Type", () => {
+    const schema = defineSchema({
+      NODE_ENV: env.enum(["development", "staging", "production"] as const, {
+        default: "development",
+      }),
+    });
+
+    it("should accept one of the allowed choices", () => {
+      const result = EnvValidator.validate(schema, { NODE_ENV: "staging" });
+      expect(result.NODE_ENV).toBe("staging");
+      expect(EnvValidator.validate(schema, {}).NODE_ENV).toBe("development");
+    });
+
+    it("should list the allowed choices when rejecting a value", () => {
+      try {
+        EnvValidator.validate(schema, { NODE_ENV: "prod" });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).errors[0]).toMatchObject({
+          key: "NODE_ENV",
+          code: "invalid_choice",
+          expected: "enum",
+          received: "prod",
+          message:
+            'Invalid value, expected one of: development, staging, production (got "prod")',
+        });
+      }
+    });
+  });
+
+  describe("Constraints", () => {
+    const expectViolation = (
+      schema: Parameters<typeof EnvValidator.validate>[0],
+      value: string,
+      message: string,
+    ) => {
+      try {
+        EnvValidator.validate(schema, { VALUE: value });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).errors[0]).toMatchObject({
+          key: "VALUE",
+          code: "constraint_violated",
+          received: value,
+          message,
+        });
+      }
+    };
+
+    it("should enforce number ranges", () => {
+      const schema = defineSchema({
+        VALUE: env.number({ min: 5, max: 100 }),
+      });
+
+      expect(EnvValidator.validate(schema, { VALUE: "5" }).VALUE).toBe(5);
+      expectViolation(schema, "4", "Must be at least 5");
+      expectViolation(schema, "101", "Must be at most 100");
+    });
+
+    it("should enforce integers and ports", () => {
+      expectViolation(
+        defineSchema({ VALUE: env.number({ integer: true }) }),
+        "1.5",
+        "Must be an integer",
+      );
+
+      const schema = defineSchema({ VALUE: env.number({ port: true }) });
+      expect(EnvValidator.validate(schema, { VALUE: "8080" }).VALUE).toBe(8080);
+      expectViolation(
+        schema,
+        "70000",
+        "Must be a valid port (integer between 1 and 65535)",
+      );
+      expectViolation(
+        schema,
+        "0",
+        "Must be a valid port (integer between 1 and 65535)",
+      );
+    });
+
+    it("should enforce string lengths", () => {
+      const schema = defineSchema({
+        VALUE: env.string({ minLength: 3, maxLength: 5 }),
+      });
+
+      expect(EnvValidator.validate(schema, { VALUE: "abcd" }).VALUE).toBe(
+        "abcd",
+      );
+      expectViolation(schema, "ab", "Must be at least 3 characters long");
+      expectViolation(schema, "abcdef", "Must be at most 5 characters long");
+    });
+
+    it("should enforce string prefixes and patterns", () => {
+      expectViolation(
+        defineSchema({ VALUE: env.string({ startsWith: "pk_" }) }),
+        "sk_123",
+        'Must start with "pk_"',
+      );
+      expectViolation(
+        defineSchema({ VALUE: env.string({ pattern: /^[a-z]+$/ }) }),
+        "ABC",
+        "Must match pattern /^[a-z]+$/",
+      );
+    });
+  });
+
+  describe("Duration, Bytes and Date Types", () => {
+    const schema = defineSchema({
+      TIMEOUT: env.duration({ default: 30000 }),
+      MAX_UPLOAD: env.bytes({ default: 1024 }),
+      LAUNCH_AT: env.date(),
+    });
+
+    it.each([
+      ["500ms", 500],
+      ["30s", 30000],
+      ["5m", 300000],
+      ["1h30m", 5400000],
+      ["1.5s", 1500],
+      ["2d", 172800000],
+      ["PT5M", 300000],
+      ["P1DT1H", 90000000],
+      ["PT0.5S", 500],
+    ])("should parse duration %s", (value, expected) => {
+      expect(EnvValidator.validate(schema, { TIMEOUT: value }).TIMEOUT).toBe(
+        expected,
+      );
+    });
+
+    it.each([
+      ["512", 512],
+      ["10kb", 10000],
+      ["10KB", 10000],
+      ["1.5GiB", 1610612736],
+      ["2 MiB", 2097152],
+    ])("should parse byte size %s", (value, expected) => {
+      expect(
+        EnvValidator.validate(schema, { MAX_UPLOAD: value }).MAX_UPLOAD,
+      ).toBe(expected);
+    });
+
+    it("should parse ISO dates", () => {
+      const result = EnvValidator.validate(schema, {
+        LAUNCH_AT: "2024-05-01T12:00:00Z",
+      });
+      expect(result.LAUNCH_AT).toEqual(new Date("2024-05-01T12:00:00Z"));
+      expect(result.TIMEOUT).toBe(30000);
+      expect(result.MAX_UPLOAD).toBe(1024);
+    });
+
+    it("should reject malformed values", () => {
+      try {
+        EnvValidator.validate(schema, {
+          TIMEOUT: "30",
+          MAX_UPLOAD: "10 parsecs",
+          LAUNCH_AT: "next tuesday",
+        });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        const issues = (error as ValidationError).errors;
+        expect(issues.map((issue) => issue.code)).toEqual([
+          "invalid_type",
+          "invalid_type",
+          "invalid_type",
+        ]);
+        expect(issues[0].message).toContain("Invalid duration");
+        expect(issues[1].message).toContain("Invalid byte size");
+        expect(issues[2].message).toContain("Invalid date");
+      }
+    });
+
+    it.each(["P", "PT", "P1DT", "1x", "ms"])(
+      "should reject invalid duration %s",
+      (value) => {
+        expect(() => EnvValidator.validate(schema, { TIMEOUT: value })).toThrow(
+          ValidationError,
+        );
+      },
+    );
+
+    it.each(["2024-02-30", "2023-02-29T12:00:00Z", "2024-04-31", "2024-13-01"])(
+      "should reject impossible date %s",
+      (value) => {
+        expect(() =>
+          EnvValidator.validate(schema, { LAUNCH_AT: value }),
+        ).toThrow(ValidationError);
+      },
+    );
+
+    it("should accept leap days", () => {
+      expect(
+        EnvValidator.validate(schema, { LAUNCH_AT: "2024-02-29" }).LAUNCH_AT,
+      ).toEqual(new Date("2024-02-29"));
+    });
+
+    it.each(["5constructor", "5CONSTRUCTOR"])(
+      "should reject byte size with unknown unit %s",
+      (value) => {
+        expect(() =>
+          EnvValidator.validate(schema, { MAX_UPLOAD: value }),
+        ).toThrow(ValidationError);
+      },
+    );
+  });
+
+  describe("Array Type", () => {
+    it("should split, trim and parse each element", () => {
+      const schema = defineSchema({
+        ALLOWED_ORIGINS: env.array(env.url(), { required: true }),
+        WORKER_IDS: env.array(env.number(), { separator: ";" }),
+        EMPTY: env.array(env.string()),
+      });
+
+      const result = EnvValidator.validate(schema, {
+        ALLOWED_ORIGINS: "https://a.com, https://b.com",
+        WORKER_IDS: "1;2;3",
+        EMPTY: "",
+      });
+      expect(result.ALLOWED_ORIGINS).toEqual([
+        "https://a.com",
+        "https://b.com",
+      ]);
+      expect(result.WORKER_IDS).toEqual([1, 2, 3]);
+      expect(result.EMPTY).toEqual([]);
+    });
+
+    it.each([
+      ["1,2,", 2],
+      ["1,,2", 1],
+      [" ,1", 0],
+    ])("should reject empty elements in %p", (value, index) => {
+      const schema = defineSchema({
+        IDS: env.array(env.number()),
+        NAMES: env.array(env.string()),
+      });
+
+      try {
+        EnvValidator.validate(schema, { IDS: value, NAMES: value });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        const issues = (error as ValidationError).errors;
+        expect(
+          issues.map(({ key, path, message }) => [key, path, message]),
+        ).toEqual([
+          ["IDS", [index], "Empty element"],
+          ["NAMES", [index], "Empty element"],
+        ]);
+      }
+    });
+
+    it("should apply element constraints, validators and transforms", () => {
+      const schema = defineSchema({
+        PORTS: env.array(
+          env.number({ port: true, transform: (value) => value + 1 }),
+          { default: [80] },
+        ),
+      });
+
+      expect(EnvValidator.validate(schema, { PORTS: "80,443" }).PORTS).toEqual([
+        81, 444,
+      ]);
+      expect(EnvValidator.validate(schema, {}).PORTS).toEqual([80]);
+    });
+
+    it("should report the index of the failing element", () => {
+      const schema = defineSchema({
+        KAFKA_BROKERS: env.array(env.url()),
+      });
+
+      try {
+        EnvValidator.validate(schema, {
+          KAFKA_BROKERS: "kafka://h1:9092,h2",
+        });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.errors[0]).toMatchObject({
+          key: "KAFKA_BROKERS",
+          code: "invalid_type",
+          expected: "array",
+          message: 'Invalid URL (got "h2")',
+          path: [1],
+        });
+        expect(validationError.format()).toContain(
+          '  - KAFKA_BROKERS[1]: Invalid URL (got "h2")',
+        );
+      }
+    });
+
+    it("should enforce item counts", () => {
+      const schema = defineSchema({
+        HOSTS: env.array(env.string(), { minItems: 2, maxItems: 3 }),
+      });
+
+      expect(() => EnvValidator.validate(schema, { HOSTS: "a" })).toThrow(
+        ValidationError,
+      );
+      expect(() => EnvValidator.validate(schema, { HOSTS: "a,b,c,d" })).toThrow(
+        ValidationError,
+      );
+      try {
+        EnvValidator.validate(schema, { HOSTS: "a" });
+      } catch (error) {
+        expect((error as ValidationError).errors[0]).toMatchObject({
+          code: "constraint_violated",
+          message: "Must contain at least 2 items",
+        });
+      }
+    });
+  });
+
+  describe("JSON Shapes", () => {
+    const schema = defineSchema({
+      FEATURES: env.json({
+        required: true,
+        shape: shape.object({
+          newUI: shape.boolean(),
+          beta: shape.boolean(),
+          rollout: shape.optional(shape.enum(["internal", "public"])),
+          regions: shape.array(
+            shape.object({ name: shape.string(), weight: shape.number() }),
+          ),
+        }),
+      }),
+    });
+
+    const expectMismatch = (value: unknown, path: string, message: string) => {
+      try {
+        EnvValidator.validate(schema, { FEATURES: JSON.stringify(value) });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.errors[0]).toMatchObject({
+          code: "invalid_type",
+          message,
+        });
+        expect(validationError.format()).toContain(`  - ${path}: ${message}`);
+      }
+    };
+
+    it("should accept values matching the shape", () => {
+      const value = {
+        newUI: true,
+        beta: false,
+        regions: [{ name: "eu", weight: 1 }],
+        extra: "ignored",
+      };
+
+      const result = EnvValidator.validate(schema, {
+        FEATURES: JSON.stringify(value),
+      });
+      expect(result.FEATURES).toEqual(value);
+    });
+
+    it("should report the path of mismatching fields", () => {
+      expectMismatch(
+        { newUI: true, beta: "yes", regions: [] },
+        "FEATURES.beta",
+        "expected boolean",
+      );
+      expectMismatch(
+        { newUI: true, beta: true, regions: [{ name: "eu", weight: "1" }] },
+        "FEATURES.regions[0].weight",
+        "expected number",
+      );
+      expectMismatch(
+        { newUI: true, beta: true, regions: [], rollout: "everyone" },
+        "FEATURES.rollout",
+        "expected one of: internal, public",
+      );
+      expectMismatch(
+        [],
+        "FEATURES",
+        'expected { newUI: boolean, beta: boolean, rollout?: "internal" | "public", regions: { name: string, weight: number }[] }',
+      );
+    });
+  });
+
+  describe("Custom Types", () => {
+    beforeAll(() => {
+      registerType("ipv4", {
+        parse: (value) => {
+          if (!/^(\d{1,3}\.){3}\d{1,3}$/.test(value)) {
+            throw new Error("Invalid IPv4 address");
+          }
+          return value;
+        },
+      });
+      registerType("seconds", {
+        parse: (value) => {
+          const seconds = Number(value.replace(/s$/, ""));
+          if (isNaN(seconds)) throw new Error("");
+          return seconds * 1000;
+        },
+      });
+    });
+
+    it("should parse values with registered parsers", () => {
+      const schema = defineSchema({
+        HOST: env.custom("ipv4", { required: true }),
+        TIMEOUT: env.custom("seconds", { default: 5000 }),
+      });
+
+      const result = EnvValidator.validate(schema, {
+        HOST: "10.0.0.1",
+        TIMEOUT: "30s",
+      });
+      expect(result.HOST).toBe("10.0.0.1");
+      expect(result.TIMEOUT).toBe(30000);
+    });
+
+    it("should report parser failures as invalid_type", () => {
+      const schema = defineSchema({
+        HOST: env.custom("ipv4"),
+        TIMEOUT: env.custom("seconds"),
+      });
+
+      try {
+        EnvValidator.validate(schema, { HOST: "localhost", TIMEOUT: "soon" });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        const issues = (error as ValidationError).errors;
+        expect(issues[0]).toMatchObject({
+          key: "HOST",
+          code: "invalid_type",
+          expected: "ipv4",
+          message: "Invalid IPv4 address",
+        });
+        expect(issues[1].message).toBe('Invalid seconds (got "soon")');
+      }
+    });
+
+    it("should reject registering a type twice", () => {
+      expect(() => registerType("ipv4", { parse: String })).toThrow(
+        'Type "ipv4" is already registered',
+      );
+      expect(() => registerType("number", { parse: Number })).toThrow(
+        'Type "number" is already registered',
+      );
+      expect(() =>
+        registerType("array", { parse: (value) => [value] }),
+      ).toThrow('Type "array" is already registered');
+    });
+  });
+
+  describe("Transforms", () => {
+    it("should post-process parsed values", () => {
+      const schema = defineSchema({
+        ORIGINS: env.string({
+          required: true,
+          transform: (value) => value.split(","),
+        }),
+        TIMEOUT_SECONDS: env.number({
+          default: 5,
+          transform: (value) => value * 1000,
+        }),
+        OPTIONAL: env.string({ transform: (value) => value.length }),
+      });
+
+      const result = EnvValidator.validate(schema, { ORIGINS: "a.com,b.com" });
+      expect(result.ORIGINS).toEqual(["a.com", "b.com"]);
+      expect(result.TIMEOUT_SECONDS).toBe(5000);
+      expect(result.OPTIONAL).toBeUndefined();
+    });
+  });
+
+  describe("Nested Schemas", () => {
+    const schema = defineSchema({
+      PORT: env.number({ default: 3000 }),
+      database: {
+        url: env.url({ required: true }),
+        poolSize: env.number({ default: 10 }),
+        replica: { url: env.url() },
+      },
+      redis: group("CACHE_", {
+        url: env.url({ key: "REDIS_URL", required: true }),
+        ttl: env.number({ default: 60 }),
+      }),
+    });
+
+    it("should return a nested config object", () => {
+      const result = EnvValidator.validate(schema, {
+        DATABASE_URL: "postgres://db/app",
+        DATABASE_POOL_SIZE: "20",
+        DATABASE_REPLICA_URL: "postgres://replica/app",
+        REDIS_URL: "redis://cache",
+        CACHE_TTL: "120",
+      });
+
+      expect(result).toEqual({
+        PORT: 3000,
+        database: {
+          url: "postgres://db/app",
+          poolSize: 20,
+          replica: { url: "postgres://replica/app" },
+        },
+        redis: { url: "redis://cache", ttl: 120 },
+      });
+    });
+
+    it("should report both the env key and the config path", () => {
+      try {
+        EnvValidator.validate(schema, {
+          DATABASE_URL: "not-a-url",
+          CACHE_TTL: "soon",
+        });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.errors).toEqual([
+          expect.objectContaining({
+            key: "DATABASE_URL",
+            configPath: ["database", "url"],
+            code: "invalid_type",
+          }),
+          expect.objectContaining({
+            key: "REDIS_URL",
+            configPath: ["redis", "url"],
+            code: "missing",
+          }),
+          expect.objectContaining({
+            key: "CACHE_TTL",
+            configPath: ["redis", "ttl"],
+            code: "invalid_type",
+          }),
+        ]);
+        expect(validationError.format()).toContain(
+          '  - DATABASE_URL (database.url): Invalid URL (got "not-a-url")',
+        );
+      }
+    });
+  });
+
+  describe("Conditional Requirements", () => {
+    const schema = defineSchema({
+      NODE_ENV: env.enum(["development", "production"], {
+        default: "development",
+      }),
+      SMTP_HOST: env.string(),
+      SMTP_PASS: env.string({
+        required: (values) => values.SMTP_HOST !== undefined,
+      }),
+      SENTRY_DSN: env.url({
+        required: (values) => values.NODE_ENV === "production",
+      }),
+    });
+
+    it("should only require variables when their predicate holds", () => {
+      expect(() => EnvValidator.validate(schema, {})).not.toThrow();
+      expect(() =>
+        EnvValidator.validate(schema, {
+          SMTP_HOST: "smtp.example.com",
+          SMTP_PASS: "secret",
+        }),
+      ).not.toThrow();
+    });
+
+    it("should report missing conditional variables", () => {
+      try {
+        EnvValidator.validate(schema, {
+          NODE_ENV: "production",
+          SMTP_HOST: "smtp.example.com",
+        });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).errors).toEqual([
+          expect.objectContaining({ key: "SMTP_PASS", code: "missing" }),
+          expect.objectContaining({ key: "SENTRY_DSN", code: "missing" }),
+        ]);
+      }
+    });
+  });
+
+  describe("Refinements", () => {
+    const schema = defineSchema(
+      {
+        pool: group("POOL_", {
+          min: env.number({ default: 1 }),
+          max: env.number({ default: 10 }),
+        }),
+      },
+      {
+        refine: [
+          {
+            check: (values) => values.pool.min <= values.pool.max,
+            key: "POOL_MIN",
+            message: "Must not exceed POOL_MAX",
+          },
+        ],
+      },
+    );
+
+    it("should pass consistent values", () => {
+      expect(EnvValidator.validate(schema, { POOL_MIN: "5" }).pool).toEqual({
+        min: 5,
+        max: 10,
+      });
+    });
+
+    it("should attribute failed refinements to the given key", () => {
+      try {
+        EnvValidator.validate(schema, { POOL_MIN: "20", POOL_MAX: "5" });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).errors).toEqual([
+          {
+            key: "POOL_MIN",
+            code: "refinement_failed",
+            expected: "number",
+            received: "20",
+            message: "Must not exceed POOL_MAX",
+            configPath: ["pool", "min"],
+          },
+        ]);
+      }
+    });
+
+    it("should skip refinements when variables are invalid", () => {
+      try {
+        EnvValidator.validate(schema, { POOL_MIN: "abc" });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).errors).toHaveLength(1);
+        expect((error as ValidationError).errors[0].code).toBe("invalid_type");
+      }
+    });
+  });
+
+  describe("Structured Errors", () => {
+    const schema = defineSchema({
+      PORT: env.number({ required: true }),
+      API_URL: env.url({}),
+      WORKERS: env.number({ validator: (value) => value > 0 }),
+    });
+    const badEnv = { API_URL: "not-a-url", WORKERS: "0" };
+
+    const getError = () => {
+      try {
+        EnvValidator.validate(schema, badEnv);
+      } catch (error) {
+        return error as ValidationError;
+      }
+      throw new Error("Should have thrown ValidationError");
+    };
+
+    it("should report an issue object per failing variable", () => {
+      expect(getError().errors).toEqual([
+        {
+          key: "PORT",
+          code: "missing",
+          expected: "number",
+          received: undefined,
+          message: "Required value is missing",
+        },
+        {
+          key: "API_URL",
+          code: "invalid_type",
+          expected: "url",
+          received: "not-a-url",
+          message: 'Invalid URL (got "not-a-url")',
+        },
+        {
+          key: "WORKERS",
+          code: "custom_failed",
+          expected: "number",
+          received: "0",
+          message: "Custom validation failed",
+        },
+      ]);
+    });
+
+    it("should format issues as a readable report", () => {
+      expect(getError().format()).toBe(
+        [
+          "Environment validation failed:",
+          "  - PORT: Required value is missing",
+          '  - API_URL: Invalid URL (got "not-a-url")',
+          '  - WORKERS: Custom validation failed (received "0")',
+        ].join("\n"),
+      );
+    });
+
+    it("should serialize to JSON", () => {
+      const json = JSON.parse(JSON.stringify(getError()));
+      expect(json.name).toBe("ValidationError");
+      expect(json.message).toBe("Environment validation failed");
+      expect(json.errors).toHaveLength(3);
+      expect(json.errors[1]).toMatchObject({
+        key: "API_URL",
+        code: "invalid_type",
+      });
+    });
+  });
+
+  describe("Custom Messages", () => {
+    const getErrors = (
+      schema: SchemaDefinition,
+      values: Record<string, string>,
+    ) => {
+      try {
+        EnvValidator.validate(schema, values);
+      } catch (error) {
+        return (error as ValidationError).errors;
+      }
+      throw new Error("Should have thrown ValidationError");
+    };
+
+    it("should use a string returned by the validator as the message", () => {
+      const schema = defineSchema({
+        PORT: env.number({
+          validator: (port) =>
+            (port >= 1000 && port <= 65535) ||
+            `must be between 1000 and 65535 (got ${port})`,
+        }),
+      });
+
+      expect(EnvValidator.validate(schema, { PORT: "8080" }).PORT).toBe(8080);
+      expect(getErrors(schema, { PORT: "80" })[0]).toMatchObject({
+        code: "custom_failed",
+        message: "must be between 1000 and 65535 (got 80)",
+      });
+    });
+
+    it("should use the message of an error thrown by the validator", () => {
+      const schema = defineSchema({
+        HOST: env.string({
+          validator: (host) => {
+            if (host.includes("_")) throw new Error("must not contain _");
+            return true;
+          },
+        }),
+      });
+
+      expect(getErrors(schema, { HOST: "my_host" })[0].message).toBe(
+        "must not contain _",
+      );
+    });
+
+    it("should replace failure messages with the message option", () => {
+      const schema = defineSchema({
+        PORT: env.number({ min: 1000, message: "must be a port above 1000" }),
+        WORKERS: env.number({
+          validator: (value) => value > 0,
+          message: (value) => `must be positive (got ${value})`,
+        }),
+        LOG_LEVEL: env.enum(["info", "debug"] as const, { required: true }),
+      });
+
+      const errors = getErrors(schema, { PORT: "abc", WORKERS: "0" });
+
+      expect(errors.map(({ key, message }) => [key, message])).toEqual([
+        ["PORT", "must be a port above 1000"],
+        ["WORKERS", "must be positive (got 0)"],
+        ["LOG_LEVEL", "Required value is missing"],
+      ]);
+    });
+
+    it("should not repeat a received value shown in the message", () => {
+      const schema = defineSchema({
+        PORT: env.number({ min: 1000, message: (port) => `got ${port}` }),
+        HOST: env.string({ minLength: 10, message: "must be at least 10" }),
+        RETRIES: env.number(),
+      });
+
+      try {
+        EnvValidator.validate(schema, {
+          PORT: "80",
+          HOST: "1",
+          RETRIES: "abc",
+        });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).format()).toBe(
+          [
+            "Environment validation failed:",
+            "  - PORT: got 80",
+            '  - HOST: must be at least 10 (received "1")',
+            '  - RETRIES: Invalid number (got "abc")',
+          ].join("\n"),
+        );
+      }
+    });
+
+    it("should mask sensitive values in custom messages", () => {
+      const schema = defineSchema({
+        TOKEN: env.string({
+          sensitive: true,
+          minLength: 10,
+          message: (value) => `${value} is not a token`,
+        }),
+      });
+
+      expect(getErrors(schema, { TOKEN: "abc" })[0].message).toBe(
+        "[REDACTED] is not a token",
+      );
+    });
+  });
+
+  describe("Sensitive Variables", () => {
+    const schema = defineSchema({
+      PORT: env.number({ default: 3000 }),
+      API_KEY: env.string({ sensitive: true, required: true }),
+      redis: group("REDIS_", {
+        url: env.url({ required: true }),
+        password: env.string({ sensitive: true, minLength: 8 }),
+      }),
+    });
+
+    it("should mask received values in errors", () => {
+      try {
+        EnvValidator.validate(schema, {
+          API_KEY: "sk-live-123",
+          REDIS_URL: "redis://cache",
+          REDIS_PASSWORD: "short",
+        });
+        fail("expected a ValidationError");
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.errors[0]).toMatchObject({
+          key: "REDIS_PASSWORD",
+          received: "[REDACTED]",
+        });
+        expect(validationError.format()).toContain('(received "[REDACTED]")');
+        expect(validationError.format()).not.toContain("short");
+        expect(JSON.stringify(validationError)).not.toContain("short");
+      }
+    });
+
+    it.each([
+      [
+        (value: string) => `Rejected password ${value}.`,
+        "Rejected password [REDACTED].",
+      ],
+      [(value: string) => `key ${value}-suffix`, "key [REDACTED]-suffix"],
+    ])("should mask secrets followed by punctuation", (message, expected) => {
+      const passwordSchema = defineSchema({
+        PASSWORD: env.string({
+          sensitive: true,
+          validator: (value) => message(value),
+        }),
+      });
+
+      try {
+        EnvValidator.validate(passwordSchema, { PASSWORD: "hunter2" });
+        fail("expected a ValidationError");
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.errors[0].message).toBe(expected);
+        expect(validationError.format()).not.toContain("hunter2");
+      }
+    });
+
+    it("should mask secrets quoted in error messages", () => {
+      const tokenSchema = defineSchema({
+        TOKEN: env.string({
+          sensitive: true,
+          transform: (value): string => {
+            throw new Error(`Malformed token ${value}`);
+          },
+        }),
+      });
+
+      expect(() =>
+        EnvValidator.validate(tokenSchema, { TOKEN: "abc123" }),
+      ).toThrow(
+        expect.objectContaining({
+          errors: [
+            expect.objectContaining({
+              message: "Malformed token [REDACTED]",
+              received: "[REDACTED]",
+            }),
+          ],
+        }),
+      );
+    });
+
+    it("should mask failing elements of sensitive arrays", () => {
+      const keysSchema = defineSchema({
+        PINS: env.array(env.number(), { sensitive: true }),
+      });
+
+      try {
+        EnvValidator.validate(keysSchema, { PINS: "1234,secretvalue" });
+        fail("expected a ValidationError");
+      } catch (error) {
+        const validationError = error as ValidationError;
+        expect(validationError.errors[0]).toMatchObject({
+          message: 'Invalid number (got "[REDACTED]")',
+          path: [1],
+        });
+        expect(validationError.format().split("\n")).toContain(
+          '  - PINS[1]: Invalid number (got "[REDACTED]")',
+        );
+        expect(validationError.format()).not.toContain("secretvalue");
+      }
+    });
+
+    it("should not mask unquoted parts of built-in messages", () => {
+      const pinSchema = defineSchema({
+        PIN: env.string({ sensitive: true, minLength: 10 }),
+        CODE: env.number({ sensitive: true }),
+      });
+
+      try {
+        EnvValidator.validate(pinSchema, { PIN: "1", CODE: "x" });
+        fail("expected a ValidationError");
+      } catch (error) {
+        expect(
+          (error as ValidationError).errors.map(({ message }) => message),
+        ).toEqual([
+          "Must be at least 10 characters long",
+          'Invalid number (got "[REDACTED]")',
+        ]);
+      }
+    });
+
+    it("should mask secrets when logging or serializing the config", () => {
+      const config = EnvValidator.validate(schema, {
+        API_KEY: "sk-live-123",
+        REDIS_URL: "redis://cache",
+        REDIS_PASSWORD: "correct-horse",
+      });
+
+      expect(config.API_KEY).toBe("sk-live-123");
+      expect(config.redis.password).toBe("correct-horse");
+      expect(JSON.parse(JSON.stringify(config))).toEqual({
+        PORT: 3000,
+        API_KEY: "[REDACTED]",
+        redis: { url: "redis://cache", password: "[REDACTED]" },
+      });
+      expect(inspect(config)).not.toMatch(/sk-live|correct-horse/);
+      expect(inspect(config.redis)).toContain("[REDACTED]");
+      expect(inspect(config)).toContain("redis://cache");
+      expect({ ...config }).toMatchObject({ API_KEY: "sk-live-123" });
+    });
+  });
+
+  describe("Strict Mode", () => {
+    const schema = defineSchema({
+      DATABASE_URL: env.url({ required: true }),
+      APP_PORT: env.number({ default: 3000 }),
+    });
+    const validateStrict = (
+      values: Record<string, string>,
+      prefixes?: string[],
+    ) => {
+      try {
+        EnvValidator.validate(schema, values, { strict: true, prefixes });
+        return [];
+      } catch (error) {
+        return (error as ValidationError).errors;
+      }
+    };
+
+    it("should ignore unknown variables by default", () => {
+      expect(() =>
+        EnvValidator.validate(schema, {
+          DATABASE_URL: "postgres://db",
+          EXTRA: "1",
+        }),
+      ).not.toThrow();
+    });
+
+    it("should report unknown variables with suggestions", () => {
+      const errors = validateStrict({
+        DATABSE_URL: "postgres://db",
+        DATABASE_URL: "postgres://db",
+        UNRELATED: "1",
+      });
+
+      expect(errors).toEqual([
+        {
+          key: "DATABSE_URL",
+          code: "unknown_variable",
+          expected: "string",
+          received: undefined,
+          message: "Unknown variable, did you mean DATABASE_URL?",
+          suggestion: "DATABASE_URL",
+        },
+        expect.objectContaining({
+          key: "UNRELATED",
+          message: "Unknown variable, not defined in the schema",
+        }),
+      ]);
+    });
+
+    it("should report typos next to the missing variable they caused", () => {
+      const errors = validateStrict({ DATABSE_URL: "postgres://db" });
+
+      expect(errors.map(({ key, code }) => [key, code])).toEqual([
+        ["DATABASE_URL", "missing"],
+        ["DATABSE_URL", "unknown_variable"],
+      ]);
+    });
+
+    it("should only check variables with the given prefixes", () => {
+      const errors = validateStrict(
+        { DATABASE_URL: "postgres://db", PATH: "/bin", APP_PROT: "80" },
+        ["APP_"],
+      );
+
+      expect(errors).toEqual([
+        expect.objectContaining({ key: "APP_PROT", suggestion: "APP_PORT" }),
+      ]);
+    });
+
+    it("should compute edit distances", () => {
+      expect(editDistance("kitten", "sitting")).toBe(3);
+      expect(editDistance("", "abc")).toBe(3);
+      expect(editDistance("PROT", "PORT")).toBe(1);
+      expect(suggestKey("PROT", ["PORT", "HOST"])).toBe("PORT");
+      expect(suggestKey("REDIS", ["PORT", "HOST"])).toBeUndefined();
+    });
+  });
+
+  describe("Aliases and Deprecations", () => {
+    const schema = defineSchema({
+      DATABASE_URL: env.url({ required: true, aliases: ["DB_URL", "DB"] }),
+      LEGACY_MODE: env.boolean({ deprecated: "remove it, it has no effect" }),
+    });
+
+    it("should read aliases as a fallback with a warning", () => {
+      const onWarning = jest.fn();
+
+      const config = EnvValidator.validate(
+        schema,
+        { DB_URL: "postgres://old", DB: "postgres://older" },
+        { onWarning },
+      );
+
+      expect(config.DATABASE_URL).toBe("postgres://old");
+      expect(onWarning).toHaveBeenCalledTimes(1);
+      expect(onWarning).toHaveBeenCalledWith({
+        key: "DATABASE_URL",
+        code: "deprecated_alias",
+        message: "DB_URL is deprecated, use DATABASE_URL instead",
+        alias: "DB_URL",
+      });
+    });
+
+    it("should prefer the new name over aliases", () => {
+      const onWarning = jest.fn();
+
+      const config = EnvValidator.validate(
+        schema,
+        { DATABASE_URL: "postgres://new", DB_URL: "postgres://old" },
+        { onWarning },
+      );
+
+      expect(config.DATABASE_URL).toBe("postgres://new");
+      expect(onWarning).not.toHaveBeenCalled();
+    });
+
+    it("should report invalid alias values", () => {
+      expect(() =>
+        EnvValidator.validate(
+          schema,
+          { DB_URL: "nope" },
+          { onWarning: () => {} },
+        ),
+      ).toThrow(
+        expect.objectContaining({
+          errors: [
+            expect.objectContaining({ key: "DATABASE_URL", received: "nope" }),
+          ],
+        }),
+      );
+    });
+
+    it("should warn when deprecated variables are set", () => {
+      const onWarning = jest.fn();
+
+      EnvValidator.validate(
+        schema,
+        { DATABASE_URL: "postgres://db", LEGACY_MODE: "true" },
+        { onWarning },
+      );
+
+      expect(onWarning).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: "deprecated",
+          message: "LEGACY_MODE is deprecated: remove it, it has no effect",
+        }),
+      );
+    });
+
+    it("should emit process warnings by default", () => {
+      const emitWarning = jest
+        .spyOn(process, "emitWarning")
+        .mockImplementation(() => {});
+      try {
+        EnvValidator.validate(schema, { DB_URL: "postgres://old" });
+
+        expect(emitWarning).toHaveBeenCalledWith(
+          "DB_URL is deprecated, use DATABASE_URL instead",
+          { type: "DeprecationWarning", code: "DEPRECATED_ALIAS" },
+        );
+      } finally {
+        emitWarning.mockRestore();
+      }
+    });
+
+    it("should not treat aliases as unknown in strict mode", () => {
+      expect(() =>
+        EnvValidator.validate(
+          schema,
+          { DB_URL: "postgres://old" },
+          { strict: true, onWarning: () => {} },
+        ),
+      ).not.toThrow();
+    });
+  });
+
+  describe("Secret Files", () => {
+    let dir: string;
+    const secret = (name: string, content: string) => {
+      const file = join(dir, name);
+      writeFileSync(file, content);
+      return file;
+    };
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "env-validator-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should read unset variables from their _FILE variable", () => {
+      const schema = defineSchema({
+        DB_PASSWORD: env.string({ required: true, fromFile: true }),
+        DB_POOL: env.number({ fromFile: true }),
+      });
+
+      const config = EnvValidator.validate(
+        schema,
+        {
+          DB_PASSWORD_FILE: secret("db_password", "s3cret\n"),
+          DB_POOL: "10",
+          DB_POOL_FILE: secret("db_pool", "20"),
+        },
+        { strict: true },
+      );
+
+      expect(config).toEqual({ DB_PASSWORD: "s3cret", DB_POOL: 10 });
+    });
+
+    it("should read files for every variable with the global option", () => {
+      const schema = defineSchema({
+        API_KEY: env.string({ required: true }),
+        TOKEN: env.string({ fromFile: false }),
+      });
+      const values = {
+        API_KEY_FILE: secret("api_key", "pk_123\r\n"),
+        TOKEN_FILE: secret("token", "abc"),
+      };
+
+      expect(EnvValidator.validate(schema, values, { fromFile: true })).toEqual(
+        { API_KEY: "pk_123" },
+      );
+      expect(() => EnvValidator.validate(schema, values)).toThrow(
+        ValidationError,
+      );
+    });
+
+    it("should validate file contents and name the file in errors", () => {
+      const schema = defineSchema({
+        DB_PORT: env.number({ fromFile: true }),
+      });
+      const file = secret("db_port", "abc\n");
+
+      try {
+        EnvValidator.validate(schema, { DB_PORT_FILE: file });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).errors[0]).toMatchObject({
+          key: "DB_PORT",
+          code: "invalid_type",
+          received: "abc",
+          source: file,
+        });
+      }
+    });
+
+    it("should report unreadable files", () => {
+      const schema = defineSchema({
+        DB_PASSWORD: env.string({ required: true, fromFile: true }),
+      });
+      const missing = join(dir, "missing");
+
+      try {
+        EnvValidator.validate(schema, { DB_PASSWORD_FILE: missing });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).errors).toEqual([
+          {
+            key: "DB_PASSWORD",
+            code: "unreadable_file",
+            expected: "string",
+            received: undefined,
+            message: `Cannot read ${missing} from DB_PASSWORD_FILE: file not found`,
+          },
+        ]);
+      }
+    });
+
+    it("should mask the contents of sensitive files", () => {
+      const schema = defineSchema({
+        DB_PASSWORD: env.string({
+          sensitive: true,
+          fromFile: true,
+          minLength: 8,
+        }),
+      });
+
+      try {
+        EnvValidator.validate(schema, {
+          DB_PASSWORD_FILE: secret("db_password", "short"),
+        });
+        fail("Should have thrown ValidationError");
+      } catch (error) {
+        expect((error as ValidationError).errors[0].received).toBe(
+          "[REDACTED]",
+        );
+      }
+    });
+  });
+
+  describe("Warnings", () => {
+    const schema = defineSchema({
+      PORT: env.number({
+        default: 3000,
+        warn: (port) => (port < 1024 ? "PORT below 1024" : undefined),
+      }),
+      API_URL: env.url({
+        required: true,
+        validator: (url) => url.startsWith("https:"),
+        severity: "warning",
+      }),
+      LOG_LEVEL: env.enum(["debug", "info"], {
+        default: "debug",
+        warn: (level, { isDefault }) =>
+          isDefault ? `Using default ${level} log level` : undefined,
+      }),
+    });
+
+    it("should return warnings alongside the result", () => {
+      const { env: config, warnings } = EnvValidator.validateWithWarnings(
+        schema,
+        { PORT: "80", API_URL: "http://api.local" },
+      );
+
+      expect(config).toEqual({
+        PORT: 80,
+        API_URL: "http://api.local",
+        LOG_LEVEL: "debug",
+      });
+      expect(warnings).toEqual([
+        {
+          key: "PORT",
+          code: "custom_warning",
+          message: "PORT below 1024",
+          received: "80",
+        },
+        {
+          key: "API_URL",
+          code: "custom_failed",
+          message: "Custom validation failed",
+          received: "http://api.local",
+        },
+        {
+          key: "LOG_LEVEL",
+          code: "custom_warning",
+          message: "Using default debug log level",
+        },
+      ]);
+    });
+
+    it("should pass warnings to the onWarning hook", () => {
+      const onWarning = jest.fn();
+
+      EnvValidator.validate(
+        schema,
+        { API_URL: "https://api.local", LOG_LEVEL: "info" },
+        { onWarning },
+      );
+
+      expect(onWarning).not.toHaveBeenCalled();
+    });
+
+    it("should downgrade only constraint and validator failures", () => {
+      const lenient = defineSchema({
+        WORKERS: env.number({ max: 4, severity: "warning" }),
+      });
+      const onWarning = jest.fn();
+
+      expect(
+        EnvValidator.validate(lenient, { WORKERS: "8" }, { onWarning }),
+      ).toEqual({ WORKERS: 8 });
+      expect(onWarning).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: "constraint_violated",
+          message: "Must be at most 4",
+        }),
+      );
+      expect(() =>
+        EnvValidator.validate(lenient, { WORKERS: "many" }, { onWarning }),
+      ).toThrow(ValidationError);
+    });
+
+    it("should promote warnings to errors", () => {
+      expect(() =>
+        EnvValidator.validate(
+          schema,
+          { PORT: "80", API_URL: "https://api.local", LOG_LEVEL: "info" },
+          { warningsAsErrors: true },
+        ),
+      ).toThrow(
+        expect.objectContaining({
+          errors: [
+            {
+              key: "PORT",
+              code: "warning",
+              expected: "number",
+              received: "80",
+              message: "PORT below 1024",
+            },
+          ],
+        }),
+      );
+    });
+  });
+
+  describe("Async Validators", () => {
+    const resolvesHost = (url: string) =>
+      Promise.resolve(new URL(url).hostname !== "unknown.invalid");
+
+    it("should run async validators and return the config", async () => {
+      const schema = defineSchema({
+        DATABASE_URL: env.url({
+          required: true,
+          asyncValidator: resolvesHost,
+        }),
+      });
+
+      await expect(
+        EnvValidator.validateAsync(schema, { DATABASE_URL: "postgres://db" }),
+      ).resolves.toEqual({ DATABASE_URL: "postgres://db" });
+    });
+
+    it("should aggregate async failures with sync issues", async () => {
+      const schema = defineSchema({
+        PORT: env.number({ required: true }),
+        DATABASE_URL: env.url({ asyncValidator: resolvesHost }),
+        TLS_CERT_PATH: env.string({
+          asyncValidator: async (path) =>
+            path.endsWith(".pem") || `${path} is not a PEM file`,
+        }),
+        API_KEY: env.string({
+          asyncValidator: async () => {
+            throw new Error("Key service unavailable");
+          },
+        }),
+      });
+
+      const error = await EnvValidator.validateAsync(schema, {
+        PORT: "abc",
+        DATABASE_URL: "postgres://unknown.invalid",
+        TLS_CERT_PATH: "cert.txt",
+        API_KEY: "k",
+      }).catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(
+        error.errors.map(({ key, message }: any) => [key, message]),
+      ).toEqual([
+        ["PORT", 'Invalid number (got "abc")'],
+        ["DATABASE_URL", "Async validation failed"],
+        ["TLS_CERT_PATH", "cert.txt is not a PEM file"],
+        ["API_KEY", "Key service unavailable"],
+      ]);
+    });
+
+    it("should time out slow validators and abort them", async () => {
+      let aborted = false;
+      const schema = defineSchema({
+        HOST: env.string({
+          timeout: 10,
+          asyncValidator: (_host, { signal }) =>
+            new Promise<boolean>((resolve) => {
+              signal.addEventListener("abort", () => {
+                aborted = true;
+                resolve(true);
+              });
+            }),
+        }),
+      });
+
+      await expect(
+        EnvValidator.validateAsync(schema, { HOST: "db" }),
+      ).rejects.toMatchObject({
+        errors: [{ key: "HOST", message: "Validation timed out after 10ms" }],
+      });
+      expect(aborted).toBe(true);
+    });
+
+    it("should skip async validators of invalid or absent values", async () => {
+      const asyncValidator = jest.fn(async () => true);
+      const schema = defineSchema({
+        PORT: env.number({ max: 10, asyncValidator }),
+        HOST: env.string({ asyncValidator }),
+      });
+
+      await expect(
+        EnvValidator.validateAsync(schema, { PORT: "80" }),
+      ).rejects.toThrow(ValidationError);
+      expect(asyncValidator).not.toHaveBeenCalled();
+    });
+
+    it("should limit the number of concurrent validators", async () => {
+      let running = 0;
+      let peak = 0;
+      const asyncValidator = async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return true;
+      };
+      const schema = defineSchema({
+        A: env.string({ asyncValidator }),
+        B: env.string({ asyncValidator }),
+        C: env.string({ asyncValidator }),
+      });
+
+      await EnvValidator.validateAsync(
+        schema,
+        { A: "a", B: "b", C: "c" },
+        { concurrency: 2 },
+      );
+
+      expect(peak).toBe(2);
+    });
+
+    it("should reject a concurrency below 1", async () => {
+      const asyncValidator = jest.fn(async () => "bad");
+      const schema = defineSchema({ A: env.string({ asyncValidator }) });
+
+      for (const concurrency of [0, -1, NaN]) {
+        await expect(
+          EnvValidator.validateAsync(schema, { A: "a" }, { concurrency }),
+        ).rejects.toThrow(RangeError);
+      }
+      expect(asyncValidator).not.toHaveBeenCalled();
+    });
+  });
 });
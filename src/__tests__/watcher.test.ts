@@ -0,0 +1,155 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { defineSchema, env } from "../builder";
+import { EnvWatcher, watchEnv } from "../watcher";
+import type { EnvChangeEvent } from "../watcher";
+import { ValidationError } from "../validator";
+
+describe("EnvWatcher", () => {
+  const schema = defineSchema({
+    PORT: env.number({ required: true }),
+    API_KEY: env.string({ sensitive: true }),
+  });
+  let dir: string;
+  let watcher: EnvWatcher<typeof schema> | undefined;
+  const write = (content: string) => writeFileSync(join(dir, ".env"), content);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "env-validator-"));
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should emit the changed keys after an edit", async () => {
+    write("PORT=3000\nAPI_KEY=old");
+    watcher = await watchEnv(schema, { dir, env: {} });
+    const onChange = jest.fn();
+    watcher.on("change", onChange);
+
+    write("PORT=4000\nAPI_KEY=new\nEXTRA=1");
+    await watcher.reload();
+
+    expect(watcher.config.PORT).toBe(4000);
+    expect(onChange).toHaveBeenCalledWith({
+      config: { PORT: 4000, API_KEY: "new" },
+      previous: { PORT: 3000, API_KEY: "old" },
+      changes: [
+        { key: "PORT", previous: "3000", value: "4000" },
+        { key: "API_KEY", previous: "[REDACTED]", value: "[REDACTED]" },
+        { key: "EXTRA", previous: undefined, value: "1" },
+      ],
+    });
+  });
+
+  it("should mask every value with the mask option", async () => {
+    write("PORT=3000");
+    watcher = await watchEnv(schema, { dir, env: {}, mask: true });
+    const onChange = jest.fn();
+    const onError = jest.fn();
+    watcher.on("change", onChange).on("error", onError);
+
+    write("PORT=3000");
+    await watcher.reload();
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onError).not.toHaveBeenCalled();
+
+    write("PORT=3001");
+    await watcher.reload();
+
+    expect(onChange.mock.calls[0][0].changes).toEqual([
+      { key: "PORT", previous: "[REDACTED]", value: "[REDACTED]" },
+    ]);
+  });
+
+  it("should keep the last valid config when an edit is invalid", async () => {
+    write("PORT=3000");
+    watcher = await watchEnv(schema, { dir, env: {} });
+    const onError = jest.fn();
+    const onChange = jest.fn();
+    watcher.on("error", onError).on("change", onChange);
+
+    write("PORT=abc");
+    await watcher.reload();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(ValidationError));
+    expect(onChange).not.toHaveBeenCalled();
+    expect(watcher.config.PORT).toBe(3000);
+
+    write("PORT=3001");
+    await watcher.reload();
+
+    expect(onChange.mock.calls[0][0].changes).toEqual([
+      { key: "PORT", previous: "3000", value: "3001" },
+    ]);
+  });
+
+  it("should keep applying edits after a change listener throws", async () => {
+    write("PORT=3000");
+    watcher = await watchEnv(schema, { dir, env: {} });
+    const onError = jest.fn();
+    const listener = jest.fn(() => {
+      throw new Error("listener failed");
+    });
+    watcher.on("change", listener).on("error", onError);
+
+    write("PORT=3001");
+    await watcher.reload();
+
+    expect(onError).toHaveBeenCalledWith(new Error("listener failed"));
+
+    watcher.off("change", listener).off("error", onError);
+    watcher.once("error", () => {
+      throw new Error("error listener failed");
+    });
+    write("PORT=abc");
+    await expect(watcher.reload()).rejects.toThrow("error listener failed");
+
+    write("PORT=3002");
+    await watcher.reload();
+
+    expect(watcher.config.PORT).toBe(3002);
+  });
+
+  it("should emit a process warning without error listeners", async () => {
+    write("PORT=3000");
+    watcher = await watchEnv(schema, { dir, env: {} });
+    const emitWarning = jest
+      .spyOn(process, "emitWarning")
+      .mockImplementation(() => undefined);
+
+    write("PORT=abc");
+    await watcher.reload();
+
+    expect(emitWarning).toHaveBeenCalledWith(
+      expect.stringContaining('PORT: Invalid number (got "abc")'),
+      { type: "EnvWarning", code: "RELOAD_FAILED" },
+    );
+    emitWarning.mockRestore();
+  });
+
+  it("should reload when a watched file is edited", async () => {
+    write("PORT=3000");
+    watcher = await watchEnv(schema, { dir, env: {}, debounce: 10 });
+    const changed = new Promise<EnvChangeEvent<typeof schema>>((resolve) =>
+      watcher?.once("change", resolve),
+    );
+
+    writeFileSync(join(dir, ".env.local"), "PORT=5000");
+
+    expect((await changed).config.PORT).toBe(5000);
+  });
+
+  it("should fail to start with an invalid configuration", async () => {
+    write("PORT=abc");
+
+    await expect(watchEnv(schema, { dir, env: {} })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+});
@@ -1,39 +1,174 @@
-import type { EnvVarConfig, EnvVarType } from "./types";
+import type {
+  ArrayConstraints,
+  AsyncValidatorContext,
+  EnvGroup,
+  EnvVarConfig,
+  EnvVarType,
+  InferValue,
+  NumberConstraints,
+  SchemaDefinition,
+  SchemaOptions,
+  StringConstraints,
+  WarnInfo,
+} from "./types";
+import { attachRefinements } from "./schema";
+import type { InferShape, Shape } from "./shape";
 
-export const env = {
-  string: (options: Omit<EnvVarConfig<"string">, "type"> = {}) => ({
-    type: "string" as const,
-    ...options,
-  }),
+/**
+ * Options accepted by the `env` builders, i.e. a config without its type.
+ * Constraints are only offered for the types that enforce them.
+ */
+type EnvVarOptions<T extends EnvVarType> = Omit<
+  EnvVarConfig<T>,
+  | "type"
+  | "choices"
+  | "items"
+  | "separator"
+  | keyof NumberConstraints
+  | keyof StringConstraints
+  | keyof ArrayConstraints
+> &
+  (T extends "number"
+    ? NumberConstraints
+    : T extends "string"
+      ? StringConstraints
+      : {});
 
-  number: (options: Omit<EnvVarConfig<"number">, "type"> = {}) => ({
-    type: "number" as const,
+/**
+ * Creates a builder for one variable type. The options are excluded from
+ * return type inference so that builders nested inside `defineSchema` are
+ * inferred from their own arguments.
+ */
+const builder =
+  <T extends EnvVarType>(type: T) =>
+  <O extends EnvVarOptions<T>>(
+    options: O = {} as O,
+  ): { type: T } & NoInfer<O> => ({
+    type,
     ...options,
-  }),
+  });
 
-  boolean: (options: Omit<EnvVarConfig<"boolean">, "type"> = {}) => ({
-    type: "boolean" as const,
-    ...options,
-  }),
+/**
+ * Builder options whose values are typed more precisely than `TypeMap`,
+ * e.g. the allowed choices of an enum.
+ */
+type TypedOptions<T extends EnvVarType, V> = Omit<
+  EnvVarOptions<T>,
+  "default" | "validator" | "transform" | "warn" | "asyncValidator"
+> & {
+  readonly default?: V;
+  readonly validator?: (value: V) => boolean | string;
+  readonly transform?: (value: V) => unknown;
+  readonly warn?: (value: V, info: WarnInfo) => string | undefined;
+  readonly asyncValidator?: (
+    value: V,
+    context: AsyncValidatorContext,
+  ) => Promise<boolean | string>;
+};
 
-  url: (options: Omit<EnvVarConfig<"url">, "type"> = {}) => ({
-    type: "url" as const,
-    ...options,
-  }),
+/**
+ * Options accepted by `env.array`.
+ */
+type ArrayOptions<V> = TypedOptions<"array", V[]> &
+  ArrayConstraints & {
+    readonly separator?: string;
+  };
 
-  email: (options: Omit<EnvVarConfig<"email">, "type"> = {}) => ({
-    type: "email" as const,
+/**
+ * Options accepted by `env.json`.
+ */
+type JsonOptions<V> = TypedOptions<"json", V> & {
+  readonly shape?: Shape;
+};
+
+function jsonBuilder<S extends Shape, O extends JsonOptions<InferShape<S>>>(
+  options: O & { readonly shape: S },
+): { type: "json" } & NoInfer<O>;
+function jsonBuilder<O extends JsonOptions<any>>(
+  options?: O,
+): { type: "json" } & NoInfer<O>;
+function jsonBuilder(options: JsonOptions<any> = {}) {
+  return { type: "json", ...options };
+}
+
+/**
+ * Schema builders. Each builder keeps the literal shape of its options so
+ * that `required` and `default` are reflected in the inferred types.
+ */
+export const env = {
+  string: builder("string"),
+  number: builder("number"),
+  boolean: builder("boolean"),
+  url: builder("url"),
+  email: builder("email"),
+  duration: builder("duration"),
+  bytes: builder("bytes"),
+  date: builder("date"),
+
+  enum: <
+    const V extends readonly string[],
+    O extends TypedOptions<"enum", V[number]>,
+  >(
+    choices: V,
+    options: O = {} as O,
+  ): { type: "enum"; choices: V } & NoInfer<O> => ({
+    type: "enum",
+    choices,
     ...options,
   }),
 
-  json: (options: Omit<EnvVarConfig<"json">, "type"> = {}) => ({
-    type: "json" as const,
+  /**
+   * JSON variable, optionally validated against a shape built with `shape`.
+   * Without a shape the parsed value is typed as `any`.
+   */
+  json: jsonBuilder,
+
+  /**
+   * Delimited list whose elements are validated with the given config,
+   * e.g. `env.array(env.url(), { separator: "," })`.
+   */
+  array: <
+    I extends EnvVarConfig<EnvVarType>,
+    O extends ArrayOptions<InferValue<I>>,
+  >(
+    items: I,
+    options: O = {} as O,
+  ): { type: "array"; items: I } & NoInfer<O> => ({
+    type: "array",
+    items,
     ...options,
   }),
+  /**
+   * Variable of a custom type added with `registerType`.
+   */
+  custom: <T extends EnvVarType, O extends EnvVarOptions<T>>(
+    type: T,
+    options: O = {} as O,
+  ): { type: T } & NoInfer<O> => builder(type)(options),
 } as const;
 
-export function defineSchema<
-  T extends Record<string, EnvVarConfig<EnvVarType>>,
->(schema: T): T {
+/**
+ * Defines a schema. Cross-field checks can be added with `refine`, e.g.
+ * `{ refine: [{ check: (env) => env.POOL_MIN <= env.POOL_MAX, key: "POOL_MIN", message: "..." }] }`.
+ */
+export function defineSchema<T extends SchemaDefinition>(
+  schema: T,
+  options: SchemaOptions<T> = {},
+): T {
+  if (options.refine) {
+    attachRefinements(schema, options.refine);
+  }
   return schema;
 }
+
+/**
+ * Groups variables under a common environment key prefix. Property names
+ * are converted to environment keys, e.g. `group("DB_", { poolSize })`
+ * reads `DB_POOL_SIZE`.
+ */
+export function group<S extends SchemaDefinition>(
+  prefix: string,
+  schema: S,
+): EnvGroup<S> {
+  return { kind: "group", prefix, schema };
+}
@@ -0,0 +1,311 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import { EnvFileHandler } from "./file-handler";
+import { EnvLoader, validateLoaded } from "./loader";
+import { flattenSchema, requireSchema } from "./schema";
+import { ValidationError } from "./validator";
+import type {
+  SchemaDefinition,
+  ValidationIssue,
+  ValidationWarning,
+} from "./types";
+
+/**
+ * Output streams of the command-line tool.
+ */
+export interface CliIO {
+  readonly stdout: (text: string) => void;
+  readonly stderr: (text: string) => void;
+}
+
+interface CliOptions {
+  readonly schema?: string;
+  readonly env?: string[];
+  readonly output?: string;
+  readonly format?: string;
+  readonly "dry-run"?: boolean;
+  readonly "flag-unknown"?: boolean;
+  readonly strict?: boolean;
+  readonly prefix?: string[];
+  readonly "warnings-as-errors"?: boolean;
+}
+
+/** Invalid invocation, reported with exit code 2 */
+class UsageError extends Error {}
+
+const USAGE = `Usage: env-validator <command> [options]
+
+Commands:
+  check                      Validate the environment against the schema
+  example                    Write a documented .env.example file
+  sync <source> <targets...> Append schema variables missing from targets
+  diff <a> <b>               Compare the keys and values of two env files
+
+Options:
+  -s, --schema <module>  Module exporting the schema as "schema" or default
+                         export (default: $ENV_VALIDATOR_SCHEMA)
+  -e, --env <file>       Env file to check, repeatable (default: the
+                         NODE_ENV cascade and process.env)
+      --strict           Make "check" fail on variables outside the schema
+      --warnings-as-errors
+                         Make "check" fail on warnings, e.g. in CI
+      --prefix <prefix>  Also check process variables with this prefix in
+                         strict mode, repeatable
+  -o, --output <file>    Output of "example" (default: .env.example)
+  -f, --format <format>  "text" (default) or "json"
+      --dry-run          Print the changes of "sync" without writing them
+      --flag-unknown     Report keys of "sync" targets outside the schema
+  -h, --help             Show this help`;
+
+/** Exit codes: success, failed check or differences, usage error */
+const EXIT = { ok: 0, failed: 1, usage: 2 } as const;
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+/**
+ * Runs the env-validator command-line tool.
+ * @param argv - Arguments after the executable, e.g. `["check", "-s", "env.js"]`
+ * @param io - Output streams
+ * @returns Process exit code
+ */
+export async function run(
+  argv: string[],
+  io: CliIO = defaultIO,
+): Promise<number> {
+  let command: string | undefined;
+  let args: string[];
+  let options: CliOptions & { help?: boolean };
+
+  try {
+    const parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        schema: { type: "string", short: "s" },
+        env: { type: "string", short: "e", multiple: true },
+        output: { type: "string", short: "o" },
+        format: { type: "string", short: "f", default: "text" },
+        "dry-run": { type: "boolean" },
+        "flag-unknown": { type: "boolean" },
+        strict: { type: "boolean" },
+        "warnings-as-errors": { type: "boolean" },
+        prefix: { type: "string", multiple: true },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    [command, ...args] = parsed.positionals;
+    options = parsed.values;
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT.usage;
+  }
+
+  if (options.help || !command) {
+    (options.help ? io.stdout : io.stderr)(USAGE);
+    return options.help ? EXIT.ok : EXIT.usage;
+  }
+  if (options.format !== "text" && options.format !== "json") {
+    io.stderr(`Unknown format "${options.format}"`);
+    return EXIT.usage;
+  }
+
+  try {
+    switch (command) {
+      case "check":
+        return await check(loadSchema(options), options, io);
+      case "example":
+        return await example(loadSchema(options), options, io);
+      case "sync":
+        return await sync(loadSchema(options), args, options, io);
+      case "diff":
+        return await diff(args, options, io);
+      default:
+        io.stderr(`Unknown command "${command}"\n\n${USAGE}`);
+        return EXIT.usage;
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(error.message);
+      return EXIT.usage;
+    }
+    io.stderr(`Error: ${(error as Error).message}`);
+    return EXIT.failed;
+  }
+}
+
+function loadSchema(options: CliOptions): SchemaDefinition {
+  const modulePath = options.schema ?? process.env.ENV_VALIDATOR_SCHEMA;
+  if (!modulePath) {
+    throw new UsageError(
+      "No schema given: pass --schema or set ENV_VALIDATOR_SCHEMA",
+    );
+  }
+  return requireSchema(modulePath);
+}
+
+/**
+ * Validates the env files, or the cascade and process.env by default.
+ */
+async function check(
+  schema: SchemaDefinition,
+  options: CliOptions,
+  io: CliIO,
+): Promise<number> {
+  const loaded = await EnvLoader.read(
+    options.env ? { files: options.env, env: {} } : {},
+  );
+
+  let issues: ValidationIssue[] = [];
+  const warnings: ValidationWarning[] = [];
+  let report = `Environment is valid (${flattenSchema(schema).length} variables)`;
+  try {
+    validateLoaded(schema, loaded, {
+      strict: options.strict,
+      prefixes: options.prefix,
+      warningsAsErrors: options["warnings-as-errors"],
+      onWarning: (warning) => warnings.push(warning),
+    });
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    issues = error.errors;
+    report = error.format();
+  }
+
+  if (options.format === "json") {
+    const keys = (...codes: ValidationIssue["code"][]) => [
+      ...new Set(
+        issues
+          .filter((issue) => codes.includes(issue.code))
+          .map((issue) => issue.key),
+      ),
+    ];
+    io.stdout(
+      JSON.stringify(
+        {
+          valid: issues.length === 0,
+          missing: keys("missing"),
+          invalid: keys(
+            "invalid_type",
+            "invalid_choice",
+            "custom_failed",
+            "constraint_violated",
+            "refinement_failed",
+            "unreadable_file",
+            "warning",
+          ),
+          unknown: keys("unknown_variable"),
+          errors: issues,
+          warnings,
+        },
+        null,
+        2,
+      ),
+    );
+  } else {
+    for (const warning of warnings) {
+      io.stderr(`Warning: ${warning.message}`);
+    }
+    (issues.length === 0 ? io.stdout : io.stderr)(report);
+  }
+  return issues.length === 0 ? EXIT.ok : EXIT.failed;
+}
+
+async function example(
+  schema: SchemaDefinition,
+  options: CliOptions,
+  io: CliIO,
+): Promise<number> {
+  const output = options.output ?? ".env.example";
+  await EnvFileHandler.generateExample(schema, output);
+
+  io.stdout(
+    options.format === "json" ? JSON.stringify({ output }) : `Wrote ${output}`,
+  );
+  return EXIT.ok;
+}
+
+async function sync(
+  schema: SchemaDefinition,
+  [source, ...targets]: string[],
+  options: CliOptions,
+  io: CliIO,
+): Promise<number> {
+  if (!source || targets.length === 0) {
+    throw new UsageError("Usage: env-validator sync <source> <targets...>");
+  }
+  const results = await EnvFileHandler.sync(schema, source, targets, {
+    dryRun: options["dry-run"],
+    flagUnknown: options["flag-unknown"],
+  });
+
+  if (options.format === "json") {
+    io.stdout(JSON.stringify(results, null, 2));
+    return EXIT.ok;
+  }
+  for (const { file, added, unknown, patch } of results) {
+    if (options["dry-run"] && patch) {
+      io.stdout(patch.trimEnd());
+    } else {
+      io.stdout(
+        added.length > 0
+          ? `${file}: added ${added.join(", ")}`
+          : `${file}: up to date`,
+      );
+    }
+    if (unknown.length > 0) {
+      io.stderr(`${file}: not in schema: ${unknown.join(", ")}`);
+    }
+  }
+  return EXIT.ok;
+}
+
+/**
+ * Lists keys added, removed or changed from file `a` to file `b`.
+ * Values are never printed, as they may be secrets.
+ */
+async function diff(
+  files: string[],
+  options: CliOptions,
+  io: CliIO,
+): Promise<number> {
+  if (files.length !== 2) {
+    throw new UsageError("Usage: env-validator diff <a> <b>");
+  }
+  const [a, b] = await Promise.all(
+    files.map((file) => EnvFileHandler.parse(file, { expand: false })),
+  );
+
+  const result = {
+    added: Object.keys(b).filter((key) => a[key] === undefined),
+    removed: Object.keys(a).filter((key) => b[key] === undefined),
+    changed: Object.keys(a).filter(
+      (key) => b[key] !== undefined && a[key] !== b[key],
+    ),
+  };
+  const different =
+    result.added.length + result.removed.length + result.changed.length > 0;
+
+  if (options.format === "json") {
+    io.stdout(JSON.stringify(result, null, 2));
+  } else if (!different) {
+    io.stdout(`${files[0]} and ${files[1]} define the same variables`);
+  } else {
+    io.stdout(
+      [
+        ...result.added.map((key) => `+ ${key}`),
+        ...result.removed.map((key) => `- ${key}`),
+        ...result.changed.map((key) => `~ ${key}`),
+      ].join("\n"),
+    );
+  }
+  return different ? EXIT.failed : EXIT.ok;
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
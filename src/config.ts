@@ -0,0 +1,23 @@
+/**
+ * Preload entry point: `node -r @xho/env-validator/config app.js`
+ *
+ * Loads the layered .env files into process.env, keeping variables that
+ * are already set. When ENV_VALIDATOR_SCHEMA names a module exporting a
+ * schema (as `schema` or default export), the environment is validated too
+ * and the process exits with a report if it is invalid.
+ */
+import { loadEnv } from "./loader";
+import { requireSchema } from "./schema";
+import { ValidationError } from "./validator";
+
+const schemaModule = process.env.ENV_VALIDATOR_SCHEMA;
+
+try {
+  loadEnv(schemaModule ? requireSchema(schemaModule) : {}, {
+    populate: true,
+  });
+} catch (error) {
+  if (!(error instanceof ValidationError)) throw error;
+  console.error(error.format());
+  process.exit(1);
+}
@@ -1,8 +1,8 @@
-import { defineSchema, env } from "../builder";
+import { defineSchema, env, group } from "../builder";
+import { shape } from "../shape";
 import { EnvValidator, ValidationError } from "../validator";
 
 // Define reusable validators
-const portValidator = (value: number) => value >= 1000 && value <= 65535;
 const urlValidator = (value: string) => {
   try {
     const url = new URL(value);
@@ -12,132 +12,96 @@ const urlValidator = (value: string) => {
   }
 };
 
-// Define custom environment configurations for different environments
-const commonConfig = {
-  NODE_ENV: env.string({
+// Server configuration, read from NODE_ENV, PORT and LOG_LEVEL
+const server = {
+  env: env.enum(["development", "staging", "production"] as const, {
+    key: "NODE_ENV",
     required: true,
-    validator: (value) =>
-      ["development", "staging", "production"].includes(value),
   }),
-  PORT: env.number({
+  port: env.number({
+    key: "PORT",
     default: 3000,
-    validator: portValidator,
+    port: true,
+    min: 1000,
   }),
-  LOG_LEVEL: env.string({
+  logLevel: env.enum(["error", "warn", "info", "debug"] as const, {
+    key: "LOG_LEVEL",
     default: "info",
-    validator: (value) => ["error", "warn", "info", "debug"].includes(value),
   }),
 };
 
-// Database configuration with connection pool settings
-const databaseConfig = {
-  DATABASE_URL: env.url({
+// Database configuration with connection pool settings, read from
+// DATABASE_URL, DB_POOL_SIZE and DB_IDLE_TIMEOUT
+const database = group("DB_", {
+  url: env.url({
+    key: "DATABASE_URL",
     required: true,
     validator: urlValidator,
   }),
-  DB_POOL_SIZE: env.number({
+  poolSize: env.number({
     default: 20,
-    validator: (value) => value >= 5 && value <= 100,
+    integer: true,
+    min: 5,
+    max: 100,
   }),
-  DB_IDLE_TIMEOUT: env.number({
-    default: 10000,
-    validator: (value) => value >= 1000,
+  idleTimeout: env.duration({
+    default: 10000, // milliseconds, set as e.g. "10s" or "PT10S"
   }),
-};
+});
 
-// Redis configuration for caching
-const redisConfig = {
-  REDIS_URL: env.url({
+// Redis configuration for caching, read from REDIS_URL, REDIS_PASSWORD
+// and CACHE_TTL
+const redis = group("REDIS_", {
+  url: env.url({
     required: true,
   }),
-  REDIS_PASSWORD: env.string({
+  password: env.string({
     required: true,
+    minLength: 8,
   }),
-  CACHE_TTL: env.number({
+  ttl: env.number({
+    key: "CACHE_TTL",
     default: 3600,
-    validator: (value) => value > 0,
+    integer: true,
+    min: 1,
   }),
-};
+});
 
-// Email service configuration
-const emailConfig = {
-  SMTP_HOST: env.string({ required: true }),
-  SMTP_PORT: env.number({
-    default: 587,
-    validator: portValidator,
+// Combine all configurations into a nested schema
+const schema = defineSchema({
+  server,
+  database,
+  redis,
+  // SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASS
+  email: group("SMTP_", {
+    host: env.string({ required: true }),
+    port: env.number({
+      default: 587,
+      port: true,
+    }),
+    user: env.email({ required: true }),
+    pass: env.string({ required: true }),
   }),
-  SMTP_USER: env.email({ required: true }),
-  SMTP_PASS: env.string({ required: true }),
-};
-
-// Feature flags configuration
-const featureFlags = {
-  FEATURES: env.json({
-    default: '{"newUI":false,"beta":false}',
-    validator: (value) => {
-      return (
-        typeof value === "object" &&
-        "newUI" in value &&
-        "beta" in value &&
-        typeof value.newUI === "boolean" &&
-        typeof value.beta === "boolean"
-      );
-    },
+  features: env.json({
+    key: "FEATURES",
+    shape: shape.object({
+      newUI: shape.boolean(),
+      beta: shape.boolean(),
+      rollout: shape.optional(shape.enum(["internal", "public"] as const)),
+    }),
+    default: { newUI: false, beta: false },
   }),
-};
-
-// Combine all configurations
-const schema = defineSchema({
-  ...commonConfig,
-  ...databaseConfig,
-  ...redisConfig,
-  ...emailConfig,
-  ...featureFlags,
 });
 
 try {
-  const env = EnvValidator.validate(schema);
-
-  // TypeScript knows all the correct types
-  const {
-    NODE_ENV,
-    PORT,
-    DATABASE_URL,
-    DB_POOL_SIZE,
-    REDIS_URL,
-    FEATURES,
-    SMTP_PORT,
-  } = env;
-
-  // Configuration object with typed values
-  const config = {
-    isProduction: NODE_ENV === "production",
-    server: {
-      port: PORT,
-      logLevel: env.LOG_LEVEL,
-    },
-    database: {
-      url: DATABASE_URL,
-      poolSize: DB_POOL_SIZE,
-      idleTimeout: env.DB_IDLE_TIMEOUT,
-    },
-    redis: {
-      url: REDIS_URL,
-      ttl: env.CACHE_TTL,
-    },
-    email: {
-      host: env.SMTP_HOST,
-      port: SMTP_PORT,
-      user: env.SMTP_USER,
-    },
-    features: FEATURES,
-  };
+  // TypeScript knows all the correct types of the nested config
+  const config = EnvValidator.validate(schema);
 
-  console.log("Configuration loaded:", config);
+  const isProduction = config.server.env === "production";
+  console.log("Configuration loaded:", { isProduction, ...config });
 } catch (error) {
   if (error instanceof ValidationError) {
-    console.error("Environment validation failed:");
-    error.errors.forEach((err) => console.error(`  - ${err}`));
+    console.error(error.format());
   }
   process.exit(1);
 }
@@ -1,51 +1,88 @@
 import fs from "fs/promises";
-import { EnvValidator } from "./validator";
-import type { EnvVarConfig, EnvVarType } from "./types";
+import { readFileSync } from "fs";
+import { EnvValidator, ValidationError } from "./validator";
+import { getCustomType } from "./registry";
+import { formatDuration } from "./units";
+import { describeShape, exampleFromShape } from "./shape";
+import { flattenSchema } from "./schema";
+import { parseEnvContent, tokenizeEnv } from "./parser";
+import type { EnvEntry, ParseOptions } from "./parser";
+import type {
+  EnvVarConfig,
+  EnvVarType,
+  SchemaDefinition,
+  TypeMap,
+  ValidationIssue,
+  ValidateOptions,
+  ValidationWarning,
+} from "./types";
 
 interface ValidationResult {
   missing: string[]; // Variables that are required but missing
   invalid: string[]; // Variables that failed validation
   valid: string[]; // Variables that passed validation
+  unknown: string[]; // Variables missing from the schema, in strict mode
+  warnings: ValidationWarning[]; // Deprecated variables and aliases in use
+  suggestions: Record<string, string>; // Likely intended key per unknown variable
+}
+
+/**
+ * Options for `EnvFileHandler.sync`.
+ */
+export interface SyncOptions {
+  /** Compute the changes without writing any file */
+  readonly dryRun?: boolean;
+  /** Report keys of the targets that are not part of the schema */
+  readonly flagUnknown?: boolean;
+}
+
+/**
+ * Changes made (or, in dry-run mode, to be made) to a sync target.
+ */
+export interface SyncResult {
+  readonly file: string;
+  /** Keys appended to the file */
+  readonly added: string[];
+  /** Keys of the file missing from the schema, when `flagUnknown` is set */
+  readonly unknown: string[];
+  /** Unified diff of the change, empty when the file is up to date */
+  readonly patch: string;
 }
 
 export class EnvFileHandler {
   /**
    * Reads and parses a .env file into key-value pairs.
-   * Handles quoted values and ignores comments.
+   * Follows the dotenv format, including quoted and multiline values,
+   * escapes, `export` prefixes and inline comments. References such as
+   * `${DB_HOST}` or `${PORT:-3000}` are expanded unless `expand` is false.
    * @param filePath - Path to the .env file
+   * @param options - Parse options, e.g. `{ expand: false }`
    * @returns Object containing environment variables
+   * @throws EnvParseError for malformed lines, with their line and column
    */
-  static async parse(filePath: string): Promise<Record<string, string>> {
-    try {
-      const content = await fs.readFile(filePath, "utf-8");
-      const env: Record<string, string> = {};
-
-      content.split("\n").forEach((line) => {
-        // Skip empty lines and comments
-        const trimmedLine = line.trim();
-        if (!trimmedLine || trimmedLine.startsWith("#")) {
-          return;
-        }
-
-        // Parse key-value pairs
-        const matches = trimmedLine.match(/^([^=]+)=(.*)$/);
-        if (!matches) return;
-
-        const key = matches[1].trim();
-        let value = matches[2].trim();
-
-        // Remove quotes if present
-        if (
-          (value.startsWith('"') && value.endsWith('"')) ||
-          (value.startsWith("'") && value.endsWith("'"))
-        ) {
-          value = value.slice(1, -1);
-        }
-
-        env[key] = value;
-      });
+  static async parse(
+    filePath: string,
+    options: Omit<ParseOptions, "file"> = {},
+  ): Promise<Record<string, string>> {
+    const content = await this.readContent(filePath);
+    return parseEnvContent(content, { ...options, file: filePath });
+  }
 
-      return env;
+  /**
+   * Synchronous variant of `parse`, for loading configuration at module
+   * load time.
+   * @param filePath - Path to the .env file
+   * @param options - Parse options, e.g. `{ expand: false }`
+   * @returns Object containing environment variables
+   * @throws EnvParseError for malformed lines, with their line and column
+   */
+  static parseSync(
+    filePath: string,
+    options: Omit<ParseOptions, "file"> = {},
+  ): Record<string, string> {
+    try {
+      const content = readFileSync(filePath, "utf-8");
+      return parseEnvContent(content, { ...options, file: filePath });
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === "ENOENT") {
         return {};
@@ -60,26 +97,55 @@ export class EnvFileHandler {
    * @param schema - Environment variable schema
    * @param outputPath - Output path for the example file
    */
-  static async generateExample<
-    T extends Record<string, EnvVarConfig<EnvVarType>>,
-  >(schema: T, outputPath: string = ".env.example"): Promise<void> {
+  static async generateExample<T extends SchemaDefinition>(
+    schema: T,
+    outputPath: string = ".env.example",
+  ): Promise<void> {
     const lines: string[] = [
       "# Generated Environment Variables",
       `# Generated on ${new Date().toISOString()}`,
       "",
     ];
 
-    for (const [key, config] of Object.entries(schema)) {
+    for (const { key, path, config } of flattenSchema(schema)) {
       if (config?.description) {
         lines.push(`# ${config.description}`);
       }
+      if (path.length > 1) {
+        lines.push(`# Config: ${path.join(".")}`);
+      }
 
-      lines.push(`# Type: ${config.type}`);
-      if (config.required) {
+      if (config.choices) {
+        lines.push(`# Type: one of: ${config.choices.join(", ")}`);
+      } else if (config.items) {
+        lines.push(
+          `# Type: array of ${config.items.type} (separated by "${config.separator ?? ","}")`,
+        );
+      } else {
+        lines.push(`# Type: ${config.type}`);
+      }
+      if (typeof config.required === "function") {
+        lines.push("# Required: conditionally");
+      } else if (config.required) {
         lines.push("# Required: true");
       }
-      if (config.default !== undefined) {
-        lines.push(`# Default: ${config.default}`);
+      if (config.deprecated) {
+        lines.push(`# Deprecated: ${config.deprecated}`);
+      }
+      if (config.aliases?.length) {
+        lines.push(`# Deprecated aliases: ${config.aliases.join(", ")}`);
+      }
+      if (config.sensitive) {
+        lines.push("# Sensitive: true");
+      } else if (config.default !== undefined) {
+        lines.push(`# Default: ${this.serializeValue(config, config.default)}`);
+      }
+      if (config.shape) {
+        lines.push(`# Shape: ${describeShape(config.shape)}`);
+      }
+      const constraints = this.describeConstraints(config);
+      if (constraints.length > 0) {
+        lines.push(`# Constraints: ${constraints.join(", ")}`);
       }
       if (config.validator) {
         lines.push("# Note: Has custom validation");
@@ -96,51 +162,78 @@ export class EnvFileHandler {
 
   /**
    * Validates environment variables against the schema.
-   * Reports missing required variables and invalid values.
+   * Reports missing required variables and invalid values, and in strict
+   * mode variables of the file that are not part of the schema.
    * @param schema - Environment variable schema
    * @param envPath - Path to the .env file
+   * @param options - Validation options, e.g. `{ strict: true }`
    * @returns Validation results showing missing, invalid, and valid variables
    */
-  static async validate<T extends Record<string, EnvVarConfig<EnvVarType>>>(
+  static async validate<T extends SchemaDefinition>(
     schema: T,
     envPath: string = ".env",
+    options: ValidateOptions = {},
   ): Promise<ValidationResult> {
     const envContent = await this.parse(envPath);
     const result: ValidationResult = {
       missing: [],
       invalid: [],
       valid: [],
+      unknown: [],
+      warnings: [],
+      suggestions: {},
     };
 
-    for (const [key, config] of Object.entries(schema)) {
-      // Check for missing required variables
-      if (!envContent[key]) {
-        if (config.required && config.default === undefined) {
-          result.missing.push(key);
-        }
-        continue;
-      }
+    // Empty values count as missing
+    const present = Object.fromEntries(
+      Object.entries(envContent).filter(([, value]) => value !== ""),
+    );
 
-      // Validate value format
-      try {
-        EnvValidator.validate({ [key]: config }, { [key]: envContent[key] });
-        result.valid.push(key);
-      } catch {
+    let issues: ValidationIssue[] = [];
+    try {
+      EnvValidator.validate(schema, present, {
+        ...options,
+        onWarning: (warning) => {
+          result.warnings.push(warning);
+          options.onWarning?.(warning);
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      issues = error.errors;
+    }
+
+    for (const { key, config } of flattenSchema(schema)) {
+      const issue = issues.find((candidate) => candidate.key === key);
+      if (issue?.code === "missing") {
+        result.missing.push(key);
+      } else if (issue) {
         result.invalid.push(key);
+      } else if (readVariable(present, key, config) !== undefined) {
+        result.valid.push(key);
       }
     }
+    for (const issue of issues) {
+      if (issue.code !== "unknown_variable") continue;
+      result.unknown.push(issue.key);
+      if (issue.suggestion) result.suggestions[issue.key] = issue.suggestion;
+    }
 
     return result;
   }
 
   /**
    * Synchronizes environment variables across multiple .env files.
-   * Preserves existing values while ensuring all required variables are present.
+   * Appends schema variables missing from each target, taking their value
+   * from the source or an example. Existing content, including comments,
+   * ordering and keys outside the schema, is kept byte-for-byte.
    * @param schema - Environment variable schema
    * @param sourceEnv - Source .env file path
    * @param targetEnvs - Array of target .env file paths
+   * @param options - Sync options, e.g. `{ dryRun: true }`
+   * @returns Changes per target
    */
-  static async sync<T extends Record<string, EnvVarConfig<EnvVarType>>>(
+  static async sync<T extends SchemaDefinition>(
     schema: T,
     sourceEnv: string = ".env",
     targetEnvs: string[] = [
@@ -148,46 +241,175 @@ export class EnvFileHandler {
       ".env.staging",
       ".env.production",
     ],
-  ): Promise<void> {
-    const sourceContent = await this.parse(sourceEnv);
+    options: SyncOptions = {},
+  ): Promise<SyncResult[]> {
+    // References are copied as written, not expanded
+    const sourceEntries = tokenizeEnv(
+      await this.readContent(sourceEnv),
+      sourceEnv,
+    );
+    const sourceContent = Object.fromEntries(
+      sourceEntries.map((entry) => [entry.key, formatEntry(entry)]),
+    );
+    const entries = flattenSchema(schema);
+    const results: SyncResult[] = [];
 
     for (const targetEnv of targetEnvs) {
-      const targetContent = await this.parse(targetEnv);
-      const updatedContent: string[] = [
-        "# Environment Variables",
-        `# Synced from ${sourceEnv} on ${new Date().toISOString()}`,
-        "",
-      ];
-
-      for (const [key, config] of Object.entries(schema)) {
-        const value =
-          targetContent[key] ||
-          sourceContent[key] ||
-          this.getExampleValue(config);
-        updatedContent.push(`${key}=${value}`);
+      const content = await this.readContent(targetEnv);
+      const targetContent = parseEnvContent(content, {
+        expand: false,
+        file: targetEnv,
+      });
+
+      const added = entries.filter(
+        ({ key, config }) =>
+          readVariable(targetContent, key, config) === undefined,
+      );
+      const lines = added.map(({ key, config }) => {
+        const sourceValue = readVariable(sourceContent, key, config);
+        // Secrets are never copied between files
+        return sourceValue !== undefined && !config.sensitive
+          ? `${key}=${sourceValue}`
+          : `${key}=${quoteValue(this.getExampleValue(config))}`;
+      });
+      if (lines.length > 0) {
+        lines.unshift(`# Added by sync from ${sourceEnv}`);
+      }
+
+      const schemaKeys = new Set(
+        entries.flatMap(({ key, config }) => [key, ...(config.aliases ?? [])]),
+      );
+      const unknown = options.flagUnknown
+        ? Object.keys(targetContent).filter((key) => !schemaKeys.has(key))
+        : [];
+
+      const patch = appendPatch(targetEnv, content, lines);
+      if (lines.length > 0 && !options.dryRun) {
+        const separator = content === "" || content.endsWith("\n") ? "" : "\n";
+        await fs.writeFile(
+          targetEnv,
+          `${content}${separator}${lines.join("\n")}\n`,
+        );
       }
 
-      await fs.writeFile(targetEnv, updatedContent.join("\n"));
+      results.push({
+        file: targetEnv,
+        added: added.map(({ key }) => key),
+        unknown,
+        patch,
+      });
     }
+
+    return results;
+  }
+
+  /**
+   * Reads a file, treating a missing file as empty.
+   * @param filePath - Path to the file
+   */
+  private static async readContent(filePath: string): Promise<string> {
+    try {
+      return await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return "";
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Describes the declarative constraints of a variable for documentation.
+   * @param config - Environment variable configuration
+   * @returns Human readable constraint descriptions
+   */
+  private static describeConstraints<T extends EnvVarType>(
+    config: EnvVarConfig<T>,
+  ): string[] {
+    const constraints: string[] = [];
+
+    if (config.port) constraints.push("port");
+    if (config.integer) constraints.push("integer");
+    if (config.min !== undefined) constraints.push(`min ${config.min}`);
+    if (config.max !== undefined) constraints.push(`max ${config.max}`);
+    if (config.minLength !== undefined) {
+      constraints.push(`min length ${config.minLength}`);
+    }
+    if (config.maxLength !== undefined) {
+      constraints.push(`max length ${config.maxLength}`);
+    }
+    if (config.startsWith !== undefined) {
+      constraints.push(`starts with "${config.startsWith}"`);
+    }
+    if (config.pattern) constraints.push(`pattern ${config.pattern}`);
+    if (config.minItems !== undefined) {
+      constraints.push(`min items ${config.minItems}`);
+    }
+    if (config.maxItems !== undefined) {
+      constraints.push(`max items ${config.maxItems}`);
+    }
+
+    return constraints;
+  }
+
+  /**
+   * Converts a typed value back into its .env string form.
+   * Custom types use their registered serializer when available.
+   * @param config - Environment variable configuration
+   * @param value - Typed value, e.g. a default
+   * @returns Value as string
+   */
+  static serializeValue<T extends EnvVarType>(
+    config: EnvVarConfig<T>,
+    value: TypeMap[T],
+  ): string {
+    switch (config.type) {
+      case "duration":
+        return formatDuration(value as number);
+      case "date":
+        return (value as Date).toISOString();
+      case "json":
+        return JSON.stringify(value);
+      case "array":
+        return (value as unknown[])
+          .map((item) =>
+            this.serializeValue(config.items ?? { type: "string" }, item),
+          )
+          .join(config.separator ?? ",");
+    }
+
+    const serialize = getCustomType(config.type)?.serialize;
+    return serialize ? serialize(value) : String(value);
   }
 
   /**
    * Generates an example value for an environment variable based on its type.
    * Uses default if provided, otherwise generates a type-appropriate example.
+   * Sensitive variables are left empty.
    * @param config - Environment variable configuration
    * @returns Example value as string
    */
   private static getExampleValue<T extends EnvVarType>(
     config: EnvVarConfig<T>,
   ): string {
+    if (config.sensitive) {
+      return "";
+    }
     if (config.default !== undefined) {
-      return String(config.default);
+      return this.serializeValue(config, config.default);
     }
 
     switch (config.type) {
       case "string":
-        return "example_value";
+        return `${config.startsWith ?? ""}example_value`;
       case "number":
+        // Keep the example within the declared range
+        if (config.min !== undefined && config.min > 3000) {
+          return String(config.min);
+        }
+        if (config.max !== undefined && config.max < 3000) {
+          return String(config.max);
+        }
         return "3000";
       case "boolean":
         return "true";
@@ -196,9 +418,100 @@ export class EnvFileHandler {
       case "email":
         return "user@example.com";
       case "json":
-        return '{"key": "value"}';
+        return config.shape
+          ? JSON.stringify(exampleFromShape(config.shape))
+          : '{"key": "value"}';
+      case "enum":
+        return config.choices?.[0] ?? "";
+      case "duration":
+        return "30s";
+      case "bytes":
+        return "10MB";
+      case "date":
+        return "2024-01-01T00:00:00.000Z";
+      case "array":
+        const item = this.getExampleValue(config.items ?? { type: "string" });
+        return [item, item].join(config.separator ?? ",");
       default:
-        return "";
+        return getCustomType(config.type)?.example ?? "";
     }
   }
 }
+
+/**
+ * Reads a variable from parsed file values, falling back to its aliases.
+ */
+function readVariable(
+  values: Record<string, string>,
+  key: string,
+  config: EnvVarConfig<EnvVarType>,
+): string | undefined {
+  const name = [key, ...(config.aliases ?? [])].find(
+    (candidate) => values[candidate] !== undefined,
+  );
+  return name === undefined ? undefined : values[name];
+}
+
+/**
+ * Formats a value for a .env line, quoting it when it would not be read
+ * back verbatim. Single quotes are preferred as they are never expanded.
+ */
+function quoteValue(value: string): string {
+  if (!/[\s"'`$\\]|^#/.test(value)) return value;
+  if (!value.includes("'")) return `'${value}'`;
+  return `"${value.replace(/["\\$]/g, "\\$&").replace(/\n/g, "\\n")}"`;
+}
+
+/**
+ * Formats a source entry for a .env line. Values with references are
+ * written as in the source so that they are expanded the same way.
+ */
+function formatEntry(entry: EnvEntry): string {
+  if (entry.quote === "'" || !entry.value.includes("$")) {
+    return quoteValue(entry.value);
+  }
+  switch (entry.quote) {
+    case '"':
+      return `"${entry.raw ?? entry.value}"`;
+    case "`":
+      return `\`${entry.value}\``;
+    default:
+      return entry.value;
+  }
+}
+
+/**
+ * Renders a unified diff appending lines to a file.
+ * @param file - File name used in the diff header
+ * @param content - Current file content
+ * @param lines - Lines to append
+ */
+function appendPatch(file: string, content: string, lines: string[]): string {
+  if (lines.length === 0) return "";
+
+  const existing = content === "" ? [] : content.replace(/\n$/, "").split("\n");
+  const header = [`--- ${file}`, `+++ ${file}`];
+
+  // Without a trailing newline, the last line changes as well
+  if (content !== "" && !content.endsWith("\n")) {
+    const last = existing[existing.length - 1];
+    const start = existing.length;
+    return [
+      ...header,
+      `@@ -${start},1 +${start},${lines.length + 1} @@`,
+      `-${last}`,
+      "\\ No newline at end of file",
+      `+${last}`,
+      ...lines.map((line) => `+${line}`),
+      "",
+    ].join("\n");
+  }
+
+  const start = existing.length;
+  return [
+    ...header,
+    `@@ -${start},0 +${start + 1},${lines.length} @@`,
+    ...lines.map((line) => `+${line}`),
+    "",
+  ].join("\n");
+}
@@ -1,4 +1,47 @@
 export { EnvValidator, ValidationError } from "./validator";
-export { env, defineSchema } from "./builder";
+export { env, defineSchema, group } from "./builder";
 export { EnvFileHandler } from "./file-handler";
-export type { EnvSchema, EnvVarConfig, EnvVarType } from "./types";
+export type { SyncOptions, SyncResult } from "./file-handler";
+export { EnvLoader, loadEnv } from "./loader";
+export type {
+  LoadEnvOptions,
+  LoadOptions,
+  LoadedEnv,
+  LoadResult,
+} from "./loader";
+export { SourceError, readSources, resolveEnv, sources } from "./sources";
+export type { EnvSource, Precedence, ResolveOptions } from "./sources";
+export { EnvWatcher, watchEnv } from "./watcher";
+export type {
+  EnvChange,
+  EnvChangeEvent,
+  EnvWatcherEvents,
+  WatchOptions,
+} from "./watcher";
+export { registerType } from "./registry";
+export { shape } from "./shape";
+export { EnvParseError, parseEnvContent } from "./parser";
+export type { ParseOptions } from "./parser";
+export type { InferShape, Shape } from "./shape";
+export type { CustomTypeDefinition } from "./registry";
+export type {
+  AsyncValidatorContext,
+  EnvGroup,
+  EnvSchema,
+  EnvVarConfig,
+  EnvVarType,
+  InferEnvVar,
+  InferValue,
+  Refinement,
+  SchemaDefinition,
+  SchemaOptions,
+  TypeMap,
+  ValidatedEnv,
+  ValidateAsyncOptions,
+  ValidateOptions,
+  ValidationErrorCode,
+  ValidationIssue,
+  ValidationWarning,
+  ValidationWarningCode,
+  WarnInfo,
+} from "./types";
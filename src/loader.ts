@@ -0,0 +1,309 @@
+import path from "path";
+import { EnvFileHandler } from "./file-handler";
+import { EnvValidator, ValidationError } from "./validator";
+import { flattenSchema } from "./schema";
+import type { SchemaEntry } from "./schema";
+import { REDACTED } from "./redact";
+import type { SchemaDefinition, ValidatedEnv, ValidateOptions } from "./types";
+
+/**
+ * Options for loading layered .env files.
+ */
+export interface LoadOptions extends ValidateOptions {
+  /** Directory containing the .env files (default: process.cwd()) */
+  readonly dir?: string;
+  /** Environment name selecting `.env.<name>` files (default: NODE_ENV) */
+  readonly nodeEnv?: string;
+  /** Variables already set, which win over files (default: process.env) */
+  readonly env?: Record<string, string | undefined>;
+  /** Expand `$VAR` and `${VAR}` references (default: true) */
+  readonly expand?: boolean;
+  /** Files to read instead of the cascade, lowest precedence first */
+  readonly files?: readonly string[];
+  /** Let file values replace variables already set in `env` (default: false) */
+  readonly override?: boolean;
+}
+
+/**
+ * Options for `loadEnv`.
+ */
+export interface LoadEnvOptions extends LoadOptions {
+  /** Write parsed values and defaults into `env` (default: false) */
+  readonly populate?: boolean;
+}
+
+/**
+ * Raw values merged from every layer, with the origin of each value.
+ */
+export interface LoadedEnv {
+  readonly values: Record<string, string>;
+  /** File path, "process.env" or source name each value was taken from */
+  readonly sources: Record<string, string>;
+}
+
+/**
+ * Validated configuration together with the raw layers it was built from.
+ */
+export interface LoadResult<T extends SchemaDefinition> extends LoadedEnv {
+  readonly env: ValidatedEnv<T>;
+}
+
+/** Source name recorded for values read from the `env` option */
+export const PROCESS_ENV_SOURCE = "process.env";
+
+/**
+ * Loads layered .env files. Later layers take precedence:
+ * `.env`, `.env.local`, `.env.<NODE_ENV>`, `.env.<NODE_ENV>.local`, then
+ * `process.env` (unless `override` is set).
+ */
+export class EnvLoader {
+  /**
+   * Lists the .env files of the cascade, lowest precedence first.
+   * @param options - Load options
+   * @returns File paths, whether they exist or not
+   */
+  static files(options: LoadOptions = {}): string[] {
+    const dir = options.dir ?? process.cwd();
+    if (options.files) {
+      return options.files.map((file) => path.resolve(dir, file));
+    }
+    const nodeEnv =
+      options.nodeEnv ?? (options.env ?? process.env).NODE_ENV ?? "";
+    const names = [".env", ".env.local"];
+    if (nodeEnv) {
+      names.push(`.env.${nodeEnv}`, `.env.${nodeEnv}.local`);
+    }
+    return names.map((name) => path.resolve(dir, name));
+  }
+
+  /**
+   * Reads and merges every layer, recording where each value came from.
+   * Missing files are skipped. References may point to variables of
+   * lower-precedence files.
+   * @param options - Load options
+   * @returns Merged values and their sources
+   * @throws EnvParseError for malformed files
+   */
+  static async read(options: LoadOptions = {}): Promise<LoadedEnv> {
+    const env = options.env ?? process.env;
+    const layers: [string, Record<string, string>][] = [];
+    let merged: Record<string, string> = {};
+
+    for (const file of this.files(options)) {
+      const values = await EnvFileHandler.parse(file, {
+        expand: options.expand,
+        env,
+        defaults: merged,
+      });
+      layers.push([file, values]);
+      merged = { ...merged, ...values };
+    }
+
+    return mergeLayers(layers, env, options.override);
+  }
+
+  /**
+   * Synchronous variant of `read`.
+   * @param options - Load options
+   * @returns Merged values and their sources
+   * @throws EnvParseError for malformed files
+   */
+  static readSync(options: LoadOptions = {}): LoadedEnv {
+    const env = options.env ?? process.env;
+    const layers: [string, Record<string, string>][] = [];
+    let merged: Record<string, string> = {};
+
+    for (const file of this.files(options)) {
+      const values = EnvFileHandler.parseSync(file, {
+        expand: options.expand,
+        env,
+        defaults: merged,
+      });
+      layers.push([file, values]);
+      merged = { ...merged, ...values };
+    }
+
+    return mergeLayers(layers, env, options.override);
+  }
+
+  /**
+   * Loads the layered .env files and validates the merged values.
+   * Validation issues name the file the offending value came from.
+   * @param schema - Environment variable schema
+   * @param options - Load options
+   * @returns Validated configuration, raw values and their sources
+   * @throws ValidationError if validation fails
+   */
+  static async load<T extends SchemaDefinition>(
+    schema: T,
+    options: LoadOptions = {},
+  ): Promise<LoadResult<T>> {
+    return validateLoaded(schema, await this.read(options), options);
+  }
+
+  /**
+   * Renders the values of a load as `KEY=value (from file)` lines for
+   * debugging. With a schema, only its variables are listed and sensitive
+   * values are masked.
+   * @param loaded - Result of `read` or `load`
+   * @param schema - Optional schema restricting the listed keys
+   */
+  static dump(loaded: LoadedEnv, schema?: SchemaDefinition): string {
+    const entries = schema
+      ? flattenSchema(schema).map(({ key, config }) => ({
+          key,
+          sensitive: config.sensitive,
+        }))
+      : Object.keys(loaded.values)
+          .sort()
+          .map((key) => ({ key, sensitive: false }));
+
+    return entries
+      .map(({ key, sensitive }) => {
+        const value = loaded.values[key];
+        if (value === undefined) return `${key} (not set)`;
+        return `${key}=${sensitive ? REDACTED : value} (from ${loaded.sources[key]})`;
+      })
+      .join("\n");
+  }
+}
+
+/**
+ * Merges parsed layers in precedence order. `env` is applied on top, or
+ * below every file when `override` is set.
+ * @param layers - File paths and their values, lowest precedence first
+ * @param env - Variables already set
+ * @param override - Whether file values replace variables of `env`
+ */
+export function mergeLayers(
+  layers: readonly (readonly [string, Record<string, string | undefined>])[],
+  env: Record<string, string | undefined>,
+  override: boolean = false,
+): LoadedEnv {
+  const values: Record<string, string> = {};
+  const sources: Record<string, string> = {};
+  const ordered = override
+    ? [[PROCESS_ENV_SOURCE, env] as const, ...layers]
+    : [...layers, [PROCESS_ENV_SOURCE, env] as const];
+
+  for (const [source, layer] of ordered) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+      values[key] = value;
+      sources[key] = source;
+    }
+  }
+
+  return { values, sources };
+}
+
+/**
+ * Lists the variables a schema entry may be read from: its key, its
+ * aliases and, when reading files, `<KEY>_FILE`.
+ */
+function variableNames(
+  { key, config }: SchemaEntry,
+  options: ValidateOptions,
+): string[] {
+  return [
+    key,
+    ...(config.aliases ?? []),
+    ...((config.fromFile ?? options.fromFile) ? [`${key}_FILE`] : []),
+  ];
+}
+
+/**
+ * Drops variables of process.env that strict mode should not report: those
+ * outside the schema that match none of the `prefixes`. Keys of files are
+ * always checked.
+ */
+function strictValues(
+  schema: SchemaDefinition,
+  loaded: LoadedEnv,
+  options: ValidateOptions,
+): Record<string, string> {
+  const known = new Set(
+    flattenSchema(schema).flatMap((entry) => variableNames(entry, options)),
+  );
+  return Object.fromEntries(
+    Object.entries(loaded.values).filter(
+      ([key]) =>
+        known.has(key) ||
+        loaded.sources[key] !== PROCESS_ENV_SOURCE ||
+        options.prefixes?.some((prefix) => key.startsWith(prefix)),
+    ),
+  );
+}
+
+/**
+ * Validates merged values, tagging issues with the source of their value.
+ * @param schema - Environment variable schema
+ * @param loaded - Merged values and their sources
+ * @param options - Validation options
+ * @throws ValidationError if validation fails
+ */
+export function validateLoaded<T extends SchemaDefinition>(
+  schema: T,
+  loaded: LoadedEnv,
+  options: ValidateOptions = {},
+): LoadResult<T> {
+  try {
+    return {
+      ...loaded,
+      env: EnvValidator.validate(
+        schema,
+        options.strict ? strictValues(schema, loaded, options) : loaded.values,
+        { ...options, prefixes: undefined },
+      ),
+    };
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    throw new ValidationError(
+      error.errors.map((issue) =>
+        loaded.sources[issue.key] &&
+        !issue.source &&
+        (issue.received !== undefined || issue.code === "unknown_variable")
+          ? { ...issue, source: loaded.sources[issue.key] }
+          : issue,
+      ),
+      error.message,
+    );
+  }
+}
+
+/**
+ * Synchronously loads the .env files, validates them and returns the typed
+ * configuration. Meant for config modules that must be ready at import
+ * time. With `populate`, file values and schema defaults are written into
+ * `env` (process.env by default) so that other code can read them.
+ * @param schema - Environment variable schema
+ * @param options - Load options
+ * @returns Validated configuration
+ * @throws ValidationError if validation fails
+ */
+export function loadEnv<T extends SchemaDefinition>(
+  schema: T,
+  options: LoadEnvOptions = {},
+): ValidatedEnv<T> {
+  const loaded = EnvLoader.readSync(options);
+  const result = validateLoaded(schema, loaded, options);
+
+  if (options.populate) {
+    const env = options.env ?? process.env;
+    for (const [key, value] of Object.entries(loaded.values)) {
+      if (loaded.sources[key] !== PROCESS_ENV_SOURCE) env[key] = value;
+    }
+    // Defaults only fill variables that no alias or file supplied
+    for (const entry of flattenSchema(schema)) {
+      const { key, config } = entry;
+      const supplied = variableNames(entry, options).some(
+        (name) => loaded.values[name] !== undefined,
+      );
+      if (config.default !== undefined && !supplied) {
+        env[key] = EnvFileHandler.serializeValue(config, config.default);
+      }
+    }
+  }
+
+  return result.env;
+}
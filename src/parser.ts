@@ -0,0 +1,299 @@
+/**
+ * Raised for malformed .env content, pointing at the offending position.
+ */
+export class EnvParseError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly line: number,
+    public readonly column: number,
+    public readonly file?: string,
+  ) {
+    super(
+      `${reason} at line ${line}, column ${column}${file ? ` of ${file}` : ""}`,
+    );
+    this.name = "EnvParseError";
+  }
+}
+
+/**
+ * A single assignment read from .env content.
+ */
+export interface EnvEntry {
+  readonly key: string;
+  readonly value: string;
+  /** Quote character the value was wrapped in, if any */
+  readonly quote?: '"' | "'" | "`";
+  /**
+   * Text between double quotes with its escapes, so that expansion can
+   * tell an escaped `\\$` from an escaped backslash before a reference
+   */
+  readonly raw?: string;
+  /** Line the assignment starts on (1-based) */
+  readonly line: number;
+  /** Column of the variable name (1-based) */
+  readonly column: number;
+}
+
+/**
+ * Options for parsing .env content.
+ */
+export interface ParseOptions {
+  /** Expand `$VAR` and `${VAR}` references (default: true) */
+  readonly expand?: boolean;
+  /**
+   * Variables available to expansion. They take precedence over keys of
+   * the file, like when the file is loaded (default: process.env).
+   */
+  readonly env?: Record<string, string | undefined>;
+  /**
+   * Variables available to expansion after the keys of the file, e.g.
+   * values of lower-precedence files
+   */
+  readonly defaults?: Record<string, string | undefined>;
+  /** File name used in error messages */
+  readonly file?: string;
+}
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  "\\": "\\",
+  '"': '"',
+};
+
+const KEY = /[A-Za-z_][A-Za-z0-9_.-]*/y;
+
+/**
+ * Tokenizes .env content following the dotenv format:
+ * - `KEY=value` pairs, optionally prefixed with `export`
+ * - full-line comments and inline ` # comments` after values
+ * - single, double and backtick quoted values, which may span lines
+ * - `\n`, `\r`, `\t`, `\\` and `\"` escapes inside double quotes
+ * - LF and CRLF line endings
+ *
+ * @param content - Raw file content
+ * @param file - File name used in error messages
+ * @throws EnvParseError for malformed lines
+ */
+export function tokenizeEnv(content: string, file?: string): EnvEntry[] {
+  const input = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const entries: EnvEntry[] = [];
+  let index = 0;
+  // Line of the character at `scanned`, advanced as entries are read
+  let line = 1;
+  let lineStart = 0;
+  let scanned = 0;
+
+  const syntaxError = (reason: string, at: number) => {
+    const before = input.slice(0, at).split("\n");
+    return new EnvParseError(
+      reason,
+      before.length,
+      before[before.length - 1].length + 1,
+      file,
+    );
+  };
+  const skipSpaces = () => {
+    while (input[index] === " " || input[index] === "\t") index++;
+  };
+  const skipLine = () => {
+    while (index < input.length && input[index] !== "\n") index++;
+  };
+
+  while (index < input.length) {
+    skipSpaces();
+
+    // Blank lines and full-line comments
+    if (input[index] === "\n" || input[index] === "#") {
+      skipLine();
+      index++;
+      continue;
+    }
+    if (index >= input.length) break;
+
+    for (; scanned < index; scanned++) {
+      if (input[scanned] === "\n") {
+        line++;
+        lineStart = scanned + 1;
+      }
+    }
+    const column = index - lineStart + 1;
+
+    if (/^export[ \t]/.test(input.slice(index, index + 7))) {
+      index += 7;
+      skipSpaces();
+    }
+
+    KEY.lastIndex = index;
+    const key = KEY.exec(input)?.[0];
+    if (!key) throw syntaxError("Invalid variable name", index);
+    index += key.length;
+
+    skipSpaces();
+    if (input[index] !== "=") {
+      throw syntaxError(`Expected "=" after ${key}`, index);
+    }
+    index++;
+    skipSpaces();
+
+    const quote = input[index];
+    let value: string;
+
+    if (quote === '"' || quote === "'" || quote === "`") {
+      const open = index;
+      index++;
+      value = "";
+      while (index < input.length && input[index] !== quote) {
+        if (
+          quote === '"' &&
+          input[index] === "\\" &&
+          index + 1 < input.length
+        ) {
+          const next = input[index + 1];
+          value += ESCAPES[next] ?? `\\${next}`;
+          index += 2;
+          continue;
+        }
+        value += input[index++];
+      }
+      if (index >= input.length) {
+        throw syntaxError(
+          `Unterminated ${quote} quoted value for ${key}`,
+          open,
+        );
+      }
+      const raw = input.slice(open + 1, index);
+      index++;
+
+      skipSpaces();
+      if (index < input.length && input[index] !== "\n") {
+        if (input[index] !== "#") {
+          throw syntaxError(
+            `Unexpected characters after quoted value of ${key}`,
+            index,
+          );
+        }
+        skipLine();
+      }
+      entries.push({
+        key,
+        value,
+        quote,
+        ...(quote === '"' ? { raw } : {}),
+        line,
+        column,
+      });
+    } else {
+      const end = input.indexOf("\n", index);
+      const raw = input.slice(index, end === -1 ? input.length : end);
+      // An inline comment starts at a "#" preceded by whitespace
+      const comment = raw.search(/(^|[ \t])#/);
+      value = (comment === -1 ? raw : raw.slice(0, comment)).trim();
+      index += raw.length;
+      entries.push({ key, value, line, column });
+    }
+
+    index++;
+  }
+
+  return entries;
+}
+
+const REFERENCE =
+  /\\([\s\S])|\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:-|:\?)((?:[^{}]|\{[^{}]*\})*))?\}|\$([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Expands variable references in tokenized entries:
+ * - `$VAR` and `${VAR}` are replaced by the value (empty when unset)
+ * - `${VAR:-default}` uses the default when VAR is unset or empty
+ * - `${VAR:?message}` fails with the message when VAR is unset or empty
+ * - `\$` produces a literal `$`
+ *
+ * Escapes of double-quoted values are resolved in the same pass, so `\\$VAR`
+ * is a backslash followed by the value. Single-quoted values are kept
+ * literally. References may point to any key of the file; circular
+ * references are reported as errors.
+ */
+function expandEntries(
+  entries: EnvEntry[],
+  options: ParseOptions,
+): Record<string, string> {
+  const env = options.env ?? process.env;
+  const byKey = new Map(entries.map((entry) => [entry.key, entry]));
+  const resolved = new Map<string, string>();
+
+  const lookup = (name: string, stack: string[]): string | undefined => {
+    if (env[name] !== undefined) return env[name];
+    if (byKey.has(name)) return resolve(byKey.get(name)!, stack);
+    return options.defaults?.[name];
+  };
+
+  const expand = (value: string, entry: EnvEntry, stack: string[]): string =>
+    value.replace(
+      REFERENCE,
+      (match, escaped, braced, operator, operand, bare) => {
+        if (escaped !== undefined) {
+          if (escaped === "$") return "$";
+          return entry.quote === '"' ? (ESCAPES[escaped] ?? match) : match;
+        }
+
+        const name = braced ?? bare;
+        const current = lookup(name, stack);
+        if (operator === ":-" && !current) {
+          return expand(operand, entry, stack);
+        }
+        if (operator === ":?" && !current) {
+          throw new EnvParseError(
+            operand || `${name} is not set`,
+            entry.line,
+            entry.column,
+            options.file,
+          );
+        }
+        return current ?? "";
+      },
+    );
+
+  const resolve = (entry: EnvEntry, stack: string[]): string => {
+    if (resolved.has(entry.key)) return resolved.get(entry.key)!;
+    if (stack.includes(entry.key)) {
+      throw new EnvParseError(
+        `Circular reference ${[...stack, entry.key].join(" -> ")}`,
+        entry.line,
+        entry.column,
+        options.file,
+      );
+    }
+
+    const value =
+      entry.quote === "'"
+        ? entry.value
+        : expand(entry.raw ?? entry.value, entry, [...stack, entry.key]);
+    resolved.set(entry.key, value);
+    return value;
+  };
+
+  return Object.fromEntries(
+    [...byKey.values()].map((entry) => [entry.key, resolve(entry, [])]),
+  );
+}
+
+/**
+ * Parses .env content into key-value pairs. Later assignments win.
+ * References to other variables are expanded unless `expand` is false.
+ * @param content - Raw file content
+ * @param options - Parse options
+ * @throws EnvParseError for malformed lines and failed expansions
+ */
+export function parseEnvContent(
+  content: string,
+  options: ParseOptions = {},
+): Record<string, string> {
+  const entries = tokenizeEnv(content, options.file);
+
+  if (options.expand === false) {
+    return Object.fromEntries(entries.map(({ key, value }) => [key, value]));
+  }
+  return expandEntries(entries, options);
+}
@@ -0,0 +1,93 @@
+import { inspect } from "util";
+
+/** Shown instead of the value of sensitive variables */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Replaces the quoted occurrences of a secret in a text, e.g. the
+ * `(got "…")` part of built-in error messages. Other occurrences are kept,
+ * so that a secret "1" does not mask part of "at least 10".
+ * @param text - Text that may contain the secret
+ * @param secret - Raw secret value
+ */
+export function redactText(text: string, secret: string | undefined): string {
+  return secret ? text.split(`"${secret}"`).join(`"${REDACTED}"`) : text;
+}
+
+/**
+ * Replaces the occurrences of a secret that stand as a whole word, e.g. in
+ * messages of custom validators, which may show the value in any form.
+ * @param text - Text that may contain the secret
+ * @param secret - Raw secret value
+ */
+export function redactWords(text: string, secret: string | undefined): string {
+  if (!secret) return text;
+  const isWordChar = (char: string | undefined) =>
+    char !== undefined && /\w/.test(char);
+
+  let result = "";
+  let from = 0;
+  for (
+    let index = text.indexOf(secret);
+    index !== -1;
+    index = text.indexOf(secret, index + 1)
+  ) {
+    const end = index + secret.length;
+    if (
+      index >= from &&
+      !isWordChar(text[index - 1]) &&
+      !isWordChar(text[end])
+    ) {
+      result += text.slice(from, index) + REDACTED;
+      from = end;
+    }
+  }
+  return result + text.slice(from);
+}
+
+/**
+ * Makes `JSON.stringify`, `util.inspect` and thus `console.log` of a config
+ * object show REDACTED for the sensitive properties, including inside
+ * nested objects. Property access still returns the real values.
+ * @param target - Validated config object
+ * @param paths - Property paths of the sensitive variables
+ */
+export function protectSecrets(
+  target: Record<string, unknown>,
+  paths: readonly (readonly string[])[],
+): void {
+  if (paths.length === 0) return;
+
+  const hidden = new Set(
+    paths.filter((path) => path.length === 1).map(([property]) => property),
+  );
+  const redacted = () =>
+    Object.fromEntries(
+      Object.entries(target).map(([property, value]) => [
+        property,
+        hidden.has(property) && value !== undefined ? REDACTED : value,
+      ]),
+    );
+
+  Object.defineProperties(target, {
+    toJSON: { value: redacted },
+    [inspect.custom]: {
+      value: (_depth: number, options: object, inspectValue: typeof inspect) =>
+        inspectValue(redacted(), options),
+    },
+  });
+
+  // Nested objects mask their own sensitive properties
+  const nested = new Map<string, string[][]>();
+  for (const [property, ...rest] of paths) {
+    if (rest.length > 0) {
+      nested.set(property, [...(nested.get(property) ?? []), rest]);
+    }
+  }
+  for (const [property, subPaths] of nested) {
+    const value = target[property];
+    if (value && typeof value === "object") {
+      protectSecrets(value as Record<string, unknown>, subPaths);
+    }
+  }
+}
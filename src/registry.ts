@@ -0,0 +1,68 @@
+import type { EnvVarType, TypeMap } from "./types";
+
+/**
+ * Definition of a custom environment variable type.
+ */
+export interface CustomTypeDefinition<T> {
+  /** Converts the raw string into the typed value, throwing when invalid */
+  readonly parse: (value: string) => T;
+  /** Converts a typed value (e.g. a default) back into its string form */
+  readonly serialize?: (value: T) => string;
+  /** Example value written to generated .env files */
+  readonly example?: string;
+}
+
+const BUILT_IN_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "url",
+  "email",
+  "json",
+  "enum",
+  "duration",
+  "bytes",
+  "date",
+  "array",
+];
+
+const customTypes = new Map<string, CustomTypeDefinition<any>>();
+
+/**
+ * Registers a custom variable type. Declare its output type by augmenting
+ * `TypeMap` so that schemas using it are inferred correctly:
+ *
+ * ```ts
+ * declare module "@xho/env-validator" {
+ *   interface TypeMap {
+ *     ipv4: string;
+ *   }
+ * }
+ *
+ * registerType("ipv4", {
+ *   parse: (value) => {
+ *     if (!/^(\d{1,3}\.){3}\d{1,3}$/.test(value)) throw new Error("Invalid IPv4");
+ *     return value;
+ *   },
+ *   example: "127.0.0.1",
+ * });
+ * ```
+ */
+export function registerType<K extends EnvVarType>(
+  name: K,
+  definition: CustomTypeDefinition<TypeMap[K]>,
+): void {
+  if (BUILT_IN_TYPES.includes(name) || customTypes.has(name)) {
+    throw new Error(`Type "${name}" is already registered`);
+  }
+  customTypes.set(name, definition);
+}
+
+/**
+ * Looks up a custom type registered with `registerType`.
+ */
+export function getCustomType(
+  name: string,
+): CustomTypeDefinition<any> | undefined {
+  return customTypes.get(name);
+}
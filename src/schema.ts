@@ -0,0 +1,162 @@
+import { resolve } from "path";
+import type {
+  EnvGroup,
+  Refinement,
+  EnvVarConfig,
+  EnvVarType,
+  SchemaDefinition,
+  SchemaNode,
+} from "./types";
+
+/**
+ * A variable of a schema together with its location.
+ */
+export interface SchemaEntry {
+  /** Environment variable name */
+  readonly key: string;
+  /** Property path in the validated config object */
+  readonly path: string[];
+  readonly config: EnvVarConfig<EnvVarType>;
+}
+
+/**
+ * Checks whether a schema node is a variable rather than a group.
+ */
+export function isEnvVarConfig(
+  node: SchemaNode,
+): node is EnvVarConfig<EnvVarType> {
+  return typeof (node as { type?: unknown }).type === "string";
+}
+
+function isEnvGroup(node: SchemaNode): node is EnvGroup<SchemaDefinition> {
+  const group = node as Partial<EnvGroup<SchemaDefinition>>;
+  return group.kind === "group" && typeof group.prefix === "string";
+}
+
+/**
+ * Converts a property name into an environment key, e.g. poolSize to POOL_SIZE.
+ */
+function toEnvKey(property: string): string {
+  return property.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase();
+}
+
+/**
+ * Lists every variable of a possibly nested schema.
+ *
+ * Top-level properties are used as environment keys verbatim. Inside a
+ * nested object the key is derived from the property path (`database.url`
+ * reads `DATABASE_URL`), and inside `group(prefix, ...)` from the prefix.
+ * An explicit `key` on a variable always wins.
+ */
+export function flattenSchema(
+  schema: SchemaDefinition,
+  prefix?: string,
+  path: string[] = [],
+): SchemaEntry[] {
+  return Object.entries(schema).flatMap(([property, node]) => {
+    const nodePath = [...path, property];
+
+    if (isEnvVarConfig(node)) {
+      const key =
+        node.key ??
+        (prefix === undefined ? property : prefix + toEnvKey(property));
+      return [{ key, path: nodePath, config: node }];
+    }
+
+    if (isEnvGroup(node)) {
+      return flattenSchema(node.schema, (prefix ?? "") + node.prefix, nodePath);
+    }
+
+    return flattenSchema(
+      node,
+      `${prefix ?? ""}${toEnvKey(property)}_`,
+      nodePath,
+    );
+  });
+}
+
+/**
+ * Assigns a value at a property path, creating intermediate objects.
+ */
+export function setPath(
+  target: Record<string, any>,
+  path: string[],
+  value: unknown,
+): void {
+  const parents = path.slice(0, -1);
+  const parent = parents.reduce((node, property) => {
+    node[property] ??= {};
+    return node[property];
+  }, target);
+  parent[path[path.length - 1]] = value;
+}
+
+const REFINEMENTS = Symbol("refinements");
+
+/**
+ * Attaches cross-field refinements to a schema without making them
+ * visible as schema entries.
+ */
+export function attachRefinements<T extends SchemaDefinition>(
+  schema: T,
+  refinements: readonly Refinement<T>[],
+): void {
+  Object.defineProperty(schema, REFINEMENTS, {
+    value: refinements,
+    enumerable: false,
+    configurable: true,
+  });
+}
+
+/**
+ * Returns the refinements attached with `defineSchema`, if any.
+ */
+export function getRefinements<T extends SchemaDefinition>(
+  schema: T,
+): readonly Refinement<T>[] {
+  return (
+    (schema as T & { [REFINEMENTS]?: readonly Refinement<T>[] })[REFINEMENTS] ??
+    []
+  );
+}
+
+const TS_LOADERS = ["tsx/cjs", "ts-node/register"];
+
+/**
+ * Loads a schema from a module exporting it as `schema`, as default export
+ * or as `module.exports`.
+ * TypeScript modules are loaded with tsx or ts-node when one is installed.
+ * @param modulePath - Module path, relative to the working directory
+ */
+export function requireSchema(modulePath: string): SchemaDefinition {
+  const resolved = resolve(modulePath);
+  let exported: SchemaDefinition & {
+    schema?: SchemaDefinition;
+    default?: SchemaDefinition;
+  };
+
+  try {
+    exported = require(resolved);
+  } catch (error) {
+    const loader = /\.[cm]?tsx?$/.test(resolved)
+      ? TS_LOADERS.find((name) => {
+          try {
+            return Boolean(require.resolve(name));
+          } catch {
+            return false;
+          }
+        })
+      : undefined;
+    if (!loader) throw error;
+    require(loader);
+    exported = require(resolved);
+  }
+
+  const schema = exported.schema ?? exported.default ?? exported;
+  if (!schema || typeof schema !== "object") {
+    throw new Error(
+      `${modulePath} must export a schema as "schema" or default export`,
+    );
+  }
+  return schema;
+}
@@ -0,0 +1,179 @@
+/**
+ * Structural description of a JSON value.
+ */
+export type Shape =
+  | { readonly kind: "string" }
+  | { readonly kind: "number" }
+  | { readonly kind: "boolean" }
+  | { readonly kind: "enum"; readonly values: readonly string[] }
+  | { readonly kind: "array"; readonly items: Shape }
+  | {
+      readonly kind: "object";
+      readonly fields: Readonly<Record<string, Shape>>;
+    }
+  | { readonly kind: "optional"; readonly inner: Shape };
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type OptionalKeys<F> = {
+  [K in keyof F]: F[K] extends { kind: "optional" } ? K : never;
+}[keyof F];
+
+/**
+ * Resolves the TypeScript type described by a shape. The unspecific
+ * `Shape` type itself resolves to `unknown`.
+ */
+export type InferShape<S> = Shape extends S
+  ? unknown
+  : S extends { kind: "string" }
+    ? string
+    : S extends { kind: "number" }
+      ? number
+      : S extends { kind: "boolean" }
+        ? boolean
+        : S extends { kind: "enum"; values: readonly (infer E)[] }
+          ? E
+          : S extends { kind: "array"; items: infer I }
+            ? InferShape<I>[]
+            : S extends { kind: "optional"; inner: infer I }
+              ? InferShape<I> | undefined
+              : S extends { kind: "object"; fields: infer F }
+                ? Simplify<
+                    {
+                      [K in Exclude<keyof F, OptionalKeys<F>>]: InferShape<
+                        F[K]
+                      >;
+                    } & {
+                      [K in OptionalKeys<F>]?: InferShape<F[K]>;
+                    }
+                  >
+                : never;
+
+/**
+ * A value that does not match its shape.
+ */
+export interface ShapeMismatch {
+  /** Location of the mismatch inside the value */
+  readonly path: (string | number)[];
+  readonly message: string;
+}
+
+/**
+ * Shape builders for `env.json`.
+ */
+export const shape = {
+  string: () => ({ kind: "string" as const }),
+  number: () => ({ kind: "number" as const }),
+  boolean: () => ({ kind: "boolean" as const }),
+  enum: <const V extends readonly string[]>(values: V) => ({
+    kind: "enum" as const,
+    values,
+  }),
+  array: <I extends Shape>(items: I) => ({ kind: "array" as const, items }),
+  object: <F extends Record<string, Shape>>(fields: F) => ({
+    kind: "object" as const,
+    fields,
+  }),
+  optional: <I extends Shape>(inner: I) => ({
+    kind: "optional" as const,
+    inner,
+  }),
+} as const;
+
+/**
+ * Describes a shape in TypeScript-like notation, e.g. `{ beta: boolean }`.
+ */
+export function describeShape(target: Shape): string {
+  switch (target.kind) {
+    case "enum":
+      return target.values.map((value) => JSON.stringify(value)).join(" | ");
+    case "array":
+      return `${describeShape(target.items)}[]`;
+    case "optional":
+      return describeShape(target.inner);
+    case "object":
+      const fields = Object.entries(target.fields).map(
+        ([name, field]) =>
+          `${name}${field.kind === "optional" ? "?" : ""}: ${describeShape(field)}`,
+      );
+      return fields.length > 0 ? `{ ${fields.join(", ")} }` : "{}";
+    default:
+      return target.kind;
+  }
+}
+
+/**
+ * Builds an example value matching a shape, leaving out optional fields.
+ */
+export function exampleFromShape(target: Shape): unknown {
+  switch (target.kind) {
+    case "string":
+      return "example";
+    case "number":
+      return 0;
+    case "boolean":
+      return false;
+    case "enum":
+      return target.values[0];
+    case "array":
+      return [exampleFromShape(target.items)];
+    case "optional":
+      return undefined;
+    case "object":
+      return Object.fromEntries(
+        Object.entries(target.fields)
+          .filter(([, field]) => field.kind !== "optional")
+          .map(([name, field]) => [name, exampleFromShape(field)]),
+      );
+  }
+}
+
+/**
+ * Checks a parsed JSON value against a shape.
+ * @returns The first mismatch found, or undefined when the value matches
+ */
+export function checkShape(
+  value: unknown,
+  target: Shape,
+  path: (string | number)[] = [],
+): ShapeMismatch | undefined {
+  const mismatch = () => ({
+    path,
+    message: `expected ${describeShape(target)}`,
+  });
+
+  switch (target.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value === target.kind ? undefined : mismatch();
+    case "enum":
+      return typeof value === "string" && target.values.includes(value)
+        ? undefined
+        : { path, message: `expected one of: ${target.values.join(", ")}` };
+    case "optional":
+      return value === undefined
+        ? undefined
+        : checkShape(value, target.inner, path);
+    case "array":
+      if (!Array.isArray(value)) return mismatch();
+      for (const [index, item] of value.entries()) {
+        const result = checkShape(item, target.items, [...path, index]);
+        if (result) return result;
+      }
+      return undefined;
+    case "object":
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return mismatch();
+      }
+      for (const [name, field] of Object.entries(target.fields)) {
+        const result = checkShape(
+          (value as Record<string, unknown>)[name],
+          field,
+          [...path, name],
+        );
+        if (result) return result;
+      }
+      return undefined;
+  }
+}
@@ -0,0 +1,170 @@
+import { readFile } from "fs/promises";
+import { EnvFileHandler } from "./file-handler";
+import { EnvParseError } from "./parser";
+import type { ParseOptions } from "./parser";
+import { PROCESS_ENV_SOURCE, mergeLayers, validateLoaded } from "./loader";
+import type { LoadedEnv, LoadResult } from "./loader";
+import type { SchemaDefinition, ValidateOptions } from "./types";
+
+/**
+ * Provider of raw environment values, e.g. a file or a secrets manager.
+ */
+export interface EnvSource {
+  /** Recorded as the origin of its values, e.g. a file path */
+  readonly name: string;
+  /** Reads every value of the source; undefined values count as unset */
+  readonly read: () =>
+    | Record<string, string | undefined>
+    | Promise<Record<string, string | undefined>>;
+}
+
+/**
+ * Which source of a chain provides a value defined by several of them.
+ */
+export type Precedence = "first-wins" | "last-wins";
+
+/**
+ * Options for resolving a chain of sources.
+ */
+export interface ResolveOptions extends ValidateOptions {
+  /** Whether earlier or later sources take precedence (default: "first-wins") */
+  readonly precedence?: Precedence;
+}
+
+/**
+ * Raised when a source cannot be read, naming the source.
+ */
+export class SourceError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly reason: string,
+  ) {
+    super(`Cannot read ${source}: ${reason}`);
+    this.name = "SourceError";
+  }
+}
+
+/**
+ * Converts structured config values to environment strings. Objects and
+ * arrays become JSON, for `json` and `array` variables.
+ */
+function toValues(
+  data: unknown,
+  name: string,
+): Record<string, string | undefined> {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new SourceError(name, "expected an object of variables");
+  }
+  const values: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === null) continue;
+    values[key] =
+      typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+  return values;
+}
+
+/**
+ * Builders for the sources of a chain.
+ */
+export const sources = {
+  /** Variables of the process, or of another environment object */
+  processEnv: (
+    env: Record<string, string | undefined> = process.env,
+  ): EnvSource => ({ name: PROCESS_ENV_SOURCE, read: () => ({ ...env }) }),
+
+  /** A .env file; missing files provide no values */
+  dotenv: (
+    file: string,
+    options: Omit<ParseOptions, "file"> = {},
+  ): EnvSource => ({
+    name: file,
+    read: () => EnvFileHandler.parse(file, options),
+  }),
+
+  /**
+   * A config file holding an object of variables, decoded with `parse`,
+   * e.g. `parse` of the "yaml" package. Missing files provide no values.
+   */
+  file: (file: string, parse: (content: string) => unknown): EnvSource => ({
+    name: file,
+    read: async () => {
+      let content: string;
+      try {
+        content = await readFile(file, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+        throw error;
+      }
+      return toValues(parse(content), file);
+    },
+  }),
+
+  /** A JSON config file holding an object of variables */
+  json: (file: string): EnvSource => sources.file(file, JSON.parse),
+
+  /** Fixed values, e.g. defaults or test fixtures */
+  memory: (values: Record<string, unknown>, name = "memory"): EnvSource => ({
+    name,
+    read: () => toValues(values, name),
+  }),
+
+  /** Values fetched by a function, e.g. from a secrets manager client */
+  custom: (
+    name: string,
+    read: () => Record<string, unknown> | Promise<Record<string, unknown>>,
+  ): EnvSource => ({ name, read: async () => toValues(await read(), name) }),
+} as const;
+
+/**
+ * Reads every source of a chain and merges their values, recording which
+ * source each value was taken from.
+ * @param chain - Sources in order
+ * @param options - Resolve options
+ * @returns Merged values and their sources
+ * @throws SourceError if a source cannot be read
+ * @throws EnvParseError for malformed .env files
+ */
+export async function readSources(
+  chain: readonly EnvSource[],
+  options: ResolveOptions = {},
+): Promise<LoadedEnv> {
+  const layers = await Promise.all(
+    chain.map(async ({ name, read }) => {
+      try {
+        return [name, await read()] as const;
+      } catch (error) {
+        if (error instanceof SourceError || error instanceof EnvParseError) {
+          throw error;
+        }
+        throw new SourceError(name, (error as Error).message);
+      }
+    }),
+  );
+
+  // mergeLayers lets later layers win
+  return mergeLayers(
+    (options.precedence ?? "first-wins") === "first-wins"
+      ? layers.reverse()
+      : layers,
+    {},
+  );
+}
+
+/**
+ * Resolves a schema from a chain of sources. Validation issues name the
+ * source the offending value came from.
+ * @param schema - Environment variable schema
+ * @param chain - Sources in order, e.g. `[sources.processEnv(), sources.dotenv(".env")]`
+ * @param options - Resolve and validation options
+ * @returns Validated configuration, raw values and their sources
+ * @throws ValidationError if validation fails
+ * @throws SourceError if a source cannot be read
+ */
+export async function resolveEnv<T extends SchemaDefinition>(
+  schema: T,
+  chain: readonly EnvSource[],
+  options: ResolveOptions = {},
+): Promise<LoadResult<T>> {
+  return validateLoaded(schema, await readSources(chain, options), options);
+}
@@ -0,0 +1,51 @@
+/**
+ * Counts the single-character insertions, deletions, substitutions and
+ * transpositions of adjacent characters needed to turn one string into
+ * another (optimal string alignment distance).
+ */
+export function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i)),
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Finds the candidate closest to a misspelled key, if any is close enough
+ * (at most a third of its characters differ).
+ * @param key - Unknown key, e.g. DATABSE_URL
+ * @param candidates - Known keys
+ */
+export function suggestKey(
+  key: string,
+  candidates: Iterable<string>,
+): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toUpperCase(), candidate.toUpperCase());
+    const limit = Math.max(1, Math.floor(candidate.length / 3));
+    if (distance <= limit && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
@@ -1,36 +1,334 @@
+import type { InferShape, Shape } from "./shape";
+
 /**
  * Maps environment variable types to their TypeScript types.
+ * Augment this interface to declare the output type of custom types.
  */
-export type TypeMap = {
+export interface TypeMap {
   string: string;
   number: number;
   boolean: boolean;
   url: string;
   email: string;
   json: any;
-};
+  enum: string;
+  duration: number;
+  bytes: number;
+  date: Date;
+  array: unknown[];
+}
 
 export type EnvVarType = keyof TypeMap;
 
+/**
+ * Declarative constraints for `number` variables.
+ */
+export interface NumberConstraints {
+  /** Smallest allowed value (inclusive) */
+  readonly min?: number;
+  /** Largest allowed value (inclusive) */
+  readonly max?: number;
+  /** Reject fractional values */
+  readonly integer?: boolean;
+  /** Require a valid TCP/UDP port (integer between 1 and 65535) */
+  readonly port?: boolean;
+}
+
+/**
+ * Declarative constraints for `string` variables.
+ */
+export interface StringConstraints {
+  readonly minLength?: number;
+  readonly maxLength?: number;
+  readonly pattern?: RegExp;
+  readonly startsWith?: string;
+}
+
+/**
+ * Declarative constraints for `array` variables.
+ */
+export interface ArrayConstraints {
+  readonly minItems?: number;
+  readonly maxItems?: number;
+}
+
 /**
  * Configuration options for environment variables.
  */
-export interface EnvVarConfig<T extends EnvVarType> {
+export interface EnvVarConfig<T extends EnvVarType>
+  extends NumberConstraints,
+    StringConstraints,
+    ArrayConstraints {
   readonly type: T;
-  readonly required?: boolean;
+  /**
+   * Whether the variable must be set. A predicate receives the other parsed
+   * values by environment key, e.g. `(env) => env.SMTP_HOST !== undefined`.
+   */
+  readonly required?: boolean | ((env: Record<string, unknown>) => boolean);
   readonly default?: TypeMap[T];
-  readonly validator?: (value: TypeMap[T]) => boolean;
+  /** Returns false, or an error message, when the value is invalid */
+  readonly validator?: (value: TypeMap[T]) => boolean | string;
+  /**
+   * Replaces the message of type, constraint and validator failures. A
+   * function receives the raw value, e.g. `(v) => \`Must be a port (got ${v})\``
+   */
+  readonly message?: string | ((value: string | undefined) => string);
   readonly description?: string;
+  /** Post-processes the parsed value; its return type becomes the variable type */
+  readonly transform?: (value: TypeMap[T]) => unknown;
+  /** Allowed values for `enum` variables */
+  readonly choices?: readonly string[];
+  /** Element configuration for `array` variables */
+  readonly items?: EnvVarConfig<EnvVarType>;
+  /** Delimiter between `array` elements (default: ",") */
+  readonly separator?: string;
+  /** Expected structure of `json` variables */
+  readonly shape?: Shape;
+  /** Environment variable name, when it differs from the schema property */
+  readonly key?: string;
+  /**
+   * Secret value: masked in errors, logs and serialized configs, and never
+   * copied into other files
+   */
+  readonly sensitive?: boolean;
+  /** Former names, read when the variable itself is not set */
+  readonly aliases?: readonly string[];
+  /**
+   * Read the value from the file named by `<KEY>_FILE` when the variable
+   * itself is not set, e.g. Docker and Kubernetes secrets (default: the
+   * `fromFile` validation option)
+   */
+  readonly fromFile?: boolean;
+  /** Marks the variable as deprecated, warning with this message when set */
+  readonly deprecated?: string;
+  /**
+   * Returns a message to warn about a valid but questionable value, e.g.
+   * a default used in production
+   */
+  readonly warn?: (value: TypeMap[T], info: WarnInfo) => string | undefined;
+  /**
+   * Whether violated constraints and failed validators fail validation
+   * ("error", the default) or are only reported as warnings
+   */
+  readonly severity?: "error" | "warning";
+  /**
+   * Asynchronous check run by `EnvValidator.validateAsync`, e.g. that a host
+   * resolves. Resolves to true when valid, or false or an error message.
+   */
+  readonly asyncValidator?: (
+    value: TypeMap[T],
+    context: AsyncValidatorContext,
+  ) => Promise<boolean | string>;
+  /** Milliseconds `asyncValidator` may take (default: 5000) */
+  readonly timeout?: number;
+}
+
+/**
+ * Context passed to `warn` hooks.
+ */
+export interface WarnInfo {
+  /** Whether the value is the default because the variable is not set */
+  readonly isDefault: boolean;
+}
+
+/**
+ * Context passed to async validators.
+ */
+export interface AsyncValidatorContext {
+  /** Aborted when the validator times out */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Group of variables sharing an environment key prefix, created with `group`.
+ */
+export interface EnvGroup<S extends SchemaDefinition> {
+  readonly kind: "group";
+  readonly prefix: string;
+  readonly schema: S;
+}
+
+/**
+ * Entry of a schema: a variable, a prefixed group or a nested object.
+ */
+export type SchemaNode =
+  | EnvVarConfig<EnvVarType>
+  | EnvGroup<SchemaDefinition>
+  | SchemaDefinition;
+
+/**
+ * Possibly nested mapping of config properties to variables.
+ */
+export interface SchemaDefinition {
+  readonly [property: string]: SchemaNode;
 }
 
 /**
  * Schema definition for environment variables.
  */
-export type EnvSchema<T extends Record<string, EnvVarConfig<EnvVarType>>> = T;
+export type EnvSchema<T extends SchemaDefinition> = T;
+
+/**
+ * Cross-field check evaluated once every variable parsed successfully.
+ */
+export interface Refinement<T> {
+  /** Returns false when the parsed values are inconsistent */
+  readonly check: (env: ValidatedEnv<T>) => boolean;
+  /** Environment key the error is reported for */
+  readonly key: string;
+  readonly message: string;
+}
+
+/**
+ * Schema-level options accepted by `defineSchema`.
+ */
+export interface SchemaOptions<T> {
+  readonly refine?: readonly Refinement<T>[];
+}
+
+/**
+ * Machine-readable reason a variable failed validation.
+ */
+export type ValidationErrorCode =
+  | "missing"
+  | "invalid_type"
+  | "invalid_choice"
+  | "custom_failed"
+  | "constraint_violated"
+  | "refinement_failed"
+  | "unknown_variable"
+  | "unreadable_file"
+  | "warning";
+
+/**
+ * A single validation problem reported for an environment variable.
+ */
+export interface ValidationIssue {
+  /** Name of the environment variable */
+  readonly key: string;
+  /** Why the variable was rejected */
+  readonly code: ValidationErrorCode;
+  /** Type declared in the schema */
+  readonly expected: EnvVarType;
+  /** Raw value read from the environment, if any */
+  readonly received: string | undefined;
+  /** Human readable description of the problem */
+  readonly message: string;
+  /** Location inside the value, e.g. the index of a failing array element */
+  readonly path?: readonly (string | number)[];
+  /** Property path of the variable in a nested schema, e.g. ["database", "url"] */
+  readonly configPath?: readonly string[];
+  /**
+   * Where the received value came from, e.g. ".env.production.local" or
+   * the file named by a `<KEY>_FILE` variable
+   */
+  readonly source?: string;
+  /** Closest schema key for an unknown variable, e.g. "DATABASE_URL" */
+  readonly suggestion?: string;
+}
+
+/**
+ * Machine-readable reason for a validation warning.
+ */
+export type ValidationWarningCode =
+  | "deprecated"
+  | "deprecated_alias"
+  | "custom_warning"
+  | "constraint_violated"
+  | "custom_failed";
+
+/**
+ * A problem that does not fail validation, e.g. use of a deprecated name.
+ */
+export interface ValidationWarning {
+  /** Name of the environment variable declared in the schema */
+  readonly key: string;
+  readonly code: ValidationWarningCode;
+  readonly message: string;
+  /** Variable actually read, when it differs from `key` */
+  readonly alias?: string;
+  /** Raw value read from the environment, if relevant */
+  readonly received?: string;
+  /** Property path of the variable in a nested schema */
+  readonly configPath?: readonly string[];
+}
 
 /**
- * Validated environment values
+ * Options for validating an environment against a schema.
+ */
+export interface ValidateOptions {
+  /**
+   * Receives warnings such as deprecated variables (default: emitted as
+   * process warnings)
+   */
+  readonly onWarning?: (warning: ValidationWarning) => void;
+  /** Fail validation on warnings, e.g. in CI (default: false) */
+  readonly warningsAsErrors?: boolean;
+  /** Report variables that are not part of the schema (default: false) */
+  readonly strict?: boolean;
+  /**
+   * Only check variables starting with one of these prefixes in strict
+   * mode, e.g. `["APP_"]` when validating process.env. Every variable is
+   * checked without prefixes.
+   */
+  readonly prefixes?: readonly string[];
+  /**
+   * Read unset variables from the files named by their `<KEY>_FILE`
+   * variables, unless disabled per variable (default: false)
+   */
+  readonly fromFile?: boolean;
+}
+
+/**
+ * Resolves the parsed type of a variable, narrowing enums to their choices,
+ * arrays to their element type and JSON to its shape.
+ */
+type BaseType<C, V extends EnvVarType> = C extends {
+  choices: readonly (infer E)[];
+}
+  ? E
+  : C extends { items: infer I }
+    ? InferValue<I>[]
+    : C extends { shape: infer S extends Shape }
+      ? InferShape<S>
+      : TypeMap[V];
+
+/**
+ * Resolves the type a variable holds when present, after its transform.
+ */
+export type InferValue<C> = C extends { type: infer V extends EnvVarType }
+  ? C extends { transform: (value: any) => infer R }
+    ? R
+    : BaseType<C, V>
+  : never;
+
+/**
+ * Resolves the TypeScript type of a single validated variable.
+ * Variables that are neither required nor defaulted may be undefined.
+ */
+export type InferEnvVar<C> = C extends { type: EnvVarType }
+  ? C extends { required: true } | { default: {} }
+    ? InferValue<C>
+    : InferValue<C> | undefined
+  : never;
+
+/**
+ * Validated environment values, mirroring the structure of the schema
  */
 export type ValidatedEnv<T> = {
-  [K in keyof T]: T[K] extends EnvVarConfig<infer V> ? TypeMap[V] : never;
+  [K in keyof T]: T[K] extends { type: EnvVarType }
+    ? InferEnvVar<T[K]>
+    : T[K] extends EnvGroup<infer S>
+      ? ValidatedEnv<S>
+      : ValidatedEnv<T[K]>;
 };
+
+/**
+ * Options for `EnvValidator.validateAsync`.
+ */
+export interface ValidateAsyncOptions extends ValidateOptions {
+  /** Default milliseconds each async validator may take (default: 5000) */
+  readonly timeout?: number;
+  /** Maximum number of async validators running at once, at least 1 (default: all) */
+  readonly concurrency?: number;
+}
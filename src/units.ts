@@ -0,0 +1,109 @@
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const BYTE_UNITS = new Map<string, number>([
+  ["b", 1],
+  ["kb", 1000],
+  ["mb", 1000 ** 2],
+  ["gb", 1000 ** 3],
+  ["tb", 1000 ** 4],
+  ["kib", 1024],
+  ["mib", 1024 ** 2],
+  ["gib", 1024 ** 3],
+  ["tib", 1024 ** 4],
+]);
+
+const ISO_DURATION =
+  /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * Parses a duration such as "500ms", "30s", "1h30m" or ISO-8601 "PT5M".
+ * @returns Duration in milliseconds, or undefined when the format is invalid
+ */
+export function parseDuration(value: string): number | undefined {
+  const input = value.trim();
+
+  const iso = input.match(ISO_DURATION);
+  if (iso) {
+    if (input.length <= 1 || /T$/i.test(input)) return undefined;
+    const [, days, hours, minutes, seconds] = iso.map(Number);
+    return Math.round(
+      (days || 0) * DURATION_UNITS.d +
+        (hours || 0) * DURATION_UNITS.h +
+        (minutes || 0) * DURATION_UNITS.m +
+        (seconds || 0) * DURATION_UNITS.s,
+    );
+  }
+
+  if (!/^(\d+(\.\d+)?(ms|s|m|h|d))+$/i.test(input)) return undefined;
+
+  let total = 0;
+  for (const [, amount, unit] of input.matchAll(
+    /(\d+(?:\.\d+)?)(ms|s|m|h|d)/gi,
+  )) {
+    total += Number(amount) * DURATION_UNITS[unit.toLowerCase()];
+  }
+  return Math.round(total);
+}
+
+/**
+ * Formats milliseconds as a compact duration, e.g. 5400000 as "1h30m".
+ */
+export function formatDuration(ms: number): string {
+  if (ms === 0) return "0ms";
+
+  let remaining = ms;
+  let result = "";
+  for (const unit of ["d", "h", "m", "s", "ms"]) {
+    const size = DURATION_UNITS[unit];
+    const amount = Math.floor(remaining / size);
+    if (amount > 0) {
+      result += `${amount}${unit}`;
+      remaining -= amount * size;
+    }
+  }
+  return result;
+}
+
+/**
+ * Parses a size such as "512", "10kb" or "1.5GiB". Decimal units (kB, MB)
+ * are powers of 1000, binary units (KiB, MiB) are powers of 1024.
+ * @returns Size in bytes, or undefined when the format is invalid
+ */
+export function parseBytes(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/i);
+  if (!match) return undefined;
+
+  const size = BYTE_UNITS.get(match[2].toLowerCase() || "b");
+  if (size === undefined) return undefined;
+
+  return Math.round(Number(match[1]) * size);
+}
+
+/**
+ * Parses an ISO-8601 date or timestamp.
+ * @returns The date, or undefined when the format is invalid
+ */
+export function parseDate(value: string): Date | undefined {
+  const match = value.trim().match(ISO_DATE);
+  if (!match) return undefined;
+
+  // Date rolls impossible days over, e.g. February 30 to March 1
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const calendar = new Date(Date.UTC(2000, month - 1, day));
+  calendar.setUTCFullYear(year);
+  if (calendar.getUTCMonth() !== month - 1 || calendar.getUTCDate() !== day) {
+    return undefined;
+  }
+
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
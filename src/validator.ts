@@ -1,13 +1,206 @@
-import type { EnvVarConfig, ValidatedEnv, EnvVarType } from "./types";
+import { readFileSync } from "fs";
+import type {
+  EnvVarConfig,
+  NumberConstraints,
+  SchemaDefinition,
+  StringConstraints,
+  ValidatedEnv,
+  EnvVarType,
+  ValidationErrorCode,
+  ValidationIssue,
+  ValidateAsyncOptions,
+  ValidateOptions,
+  ValidationWarning,
+  ValidationWarningCode,
+} from "./types";
+import { getCustomType } from "./registry";
+import { parseBytes, parseDate, parseDuration } from "./units";
+import { checkShape } from "./shape";
+import { flattenSchema, getRefinements, setPath } from "./schema";
+import type { SchemaEntry } from "./schema";
+import { REDACTED, protectSecrets, redactText, redactWords } from "./redact";
+import { suggestKey } from "./suggest";
 
 export class ValidationError extends Error {
   constructor(
-    public readonly errors: string[],
+    public readonly errors: ValidationIssue[],
     message: string = "Environment validation failed",
   ) {
     super(message);
     this.name = "ValidationError";
   }
+
+  /**
+   * Formats all issues as a human readable, multi-line report
+   */
+  format(): string {
+    const lines = this.errors.map((issue) => {
+      const quoted =
+        issue.received !== undefined &&
+        !mentionsValue(issue.message, issue.received);
+      const details = [
+        quoted ? `received "${issue.received}"` : "",
+        issue.source
+          ? `${issue.received === undefined ? "in" : "from"} ${issue.source}`
+          : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+      const received = details ? ` (${details})` : "";
+      const field = issue.configPath ? ` (${issue.configPath.join(".")})` : "";
+      return `  - ${formatIssuePath(issue)}${field}: ${issue.message}${received}`;
+    });
+    return [`${this.message}:`, ...lines].join("\n");
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      errors: this.errors,
+    };
+  }
+}
+
+/**
+ * Error raised while parsing a single variable, tagged with an issue code
+ */
+export class EnvVarError extends Error {
+  constructor(
+    public readonly code: ValidationErrorCode,
+    message: string,
+    public readonly path?: (string | number)[],
+  ) {
+    super(message);
+    this.name = "EnvVarError";
+  }
+}
+
+/**
+ * Appends the offending raw value to a message, e.g. `Invalid number (got "abc")`
+ */
+function withValue(message: string, value: string): string {
+  return `${message} (got "${value}")`;
+}
+
+/**
+ * Whether a message already shows a value as a whole word, like
+ * `Invalid number (got "abc")` or `must be above 1000 (got 80)`
+ */
+function mentionsValue(message: string, value: string): boolean {
+  // Redacting the marker with itself would leave the message unchanged
+  if (value === REDACTED) return message.includes(REDACTED);
+  return redactWords(message, value) !== message;
+}
+
+/**
+ * Renders the key and value path of an issue, e.g. `ORIGINS[1]`
+ */
+export function formatIssuePath(issue: ValidationIssue): string {
+  return (issue.path ?? []).reduce<string>(
+    (result, segment) =>
+      typeof segment === "number"
+        ? `${result}[${segment}]`
+        : `${result}.${segment}`,
+    issue.key,
+  );
+}
+
+/**
+ * Default warning channel, printing warnings as Node process warnings
+ */
+function emitWarning(warning: ValidationWarning): void {
+  process.emitWarning(warning.message, {
+    type: warning.code.startsWith("deprecated")
+      ? "DeprecationWarning"
+      : "EnvWarning",
+    code: warning.code.toUpperCase(),
+  });
+}
+
+/** Readable reasons for common errors of reading secret files */
+const FILE_ERRORS: Record<string, string> = {
+  ENOENT: "file not found",
+  EACCES: "permission denied",
+  EISDIR: "is a directory",
+};
+
+/**
+ * State of a validation pass shared by the sync and async entry points
+ */
+interface ValidationRun {
+  readonly entries: SchemaEntry[];
+  readonly errors: ValidationIssue[];
+  readonly result: Record<string, any>;
+  /** Parsed values before their transform, by environment key */
+  readonly parsed: Record<string, unknown>;
+  readonly report: (
+    entry: SchemaEntry,
+    code: ValidationErrorCode,
+    message: string,
+  ) => void;
+  readonly warnAbout: (
+    entry: SchemaEntry,
+    code: ValidationWarningCode,
+    message: string,
+  ) => void;
+  /** Reports warnings collected since the last call as errors, if promoted */
+  readonly flushWarnings: () => void;
+}
+
+/**
+ * Runs an async validator with a timeout.
+ * @returns The failure message, or undefined when the value is valid
+ */
+async function checkAsync(
+  config: EnvVarConfig<EnvVarType>,
+  value: unknown,
+  timeout: number,
+): Promise<string | undefined> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<string>((resolve) => {
+    timer = setTimeout(() => {
+      resolve(`Validation timed out after ${timeout}ms`);
+      controller.abort();
+    }, timeout);
+  });
+
+  try {
+    const outcome = await Promise.race([
+      config.asyncValidator!(value as never, { signal: controller.signal }),
+      expired,
+    ]);
+    if (outcome === true) return undefined;
+    return typeof outcome === "string" ? outcome : "Async validation failed";
+  } catch (error) {
+    return (error as Error).message || "Async validation failed";
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs tasks with at most `limit` of them pending at a time.
+ * @returns Results in the order of the tasks
+ */
+async function runConcurrently<R>(
+  tasks: (() => Promise<R>)[],
+  limit: number,
+): Promise<R[]> {
+  const results: R[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, tasks.length) }, worker),
+  );
+  return results;
 }
 
 /**
@@ -23,8 +216,8 @@ export class EnvValidator {
     config: EnvVarConfig<EnvVarType>,
   ): any {
     if (value === undefined) {
-      if (config.required && config.default === undefined) {
-        throw new Error("Required value is missing");
+      if (config.required === true && config.default === undefined) {
+        throw new EnvVarError("missing", "Required value is missing");
       }
       return config.default;
     }
@@ -32,11 +225,20 @@ export class EnvValidator {
     switch (config.type) {
       case "number":
         const num = Number(value);
-        if (isNaN(num)) throw new Error("Invalid number");
+        if (isNaN(num)) {
+          throw new EnvVarError(
+            "invalid_type",
+            withValue("Invalid number", value),
+          );
+        }
+        EnvValidator.checkNumber(num, config);
         return num;
       case "boolean":
         if (!["true", "false", "1", "0"].includes(value.toLowerCase())) {
-          throw new Error("Invalid boolean");
+          throw new EnvVarError(
+            "invalid_type",
+            withValue("Invalid boolean", value),
+          );
         }
         return ["true", "1"].includes(value.toLowerCase());
       case "url":
@@ -44,54 +246,712 @@ export class EnvValidator {
           new URL(value);
           return value;
         } catch {
-          throw new Error("Invalid URL");
+          throw new EnvVarError(
+            "invalid_type",
+            withValue("Invalid URL", value),
+          );
         }
       case "email":
         const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(value)) throw new Error("Invalid email");
+        if (!emailRegex.test(value)) {
+          throw new EnvVarError(
+            "invalid_type",
+            withValue("Invalid email", value),
+          );
+        }
         return value;
       case "json":
+        let json: unknown;
         try {
-          return JSON.parse(value);
+          json = JSON.parse(value);
         } catch {
-          throw new Error("Invalid JSON");
+          throw new EnvVarError(
+            "invalid_type",
+            withValue("Invalid JSON", value),
+          );
         }
-      default:
+        const mismatch = config.shape && checkShape(json, config.shape);
+        if (mismatch) {
+          throw new EnvVarError(
+            "invalid_type",
+            mismatch.message,
+            mismatch.path,
+          );
+        }
+        return json;
+      case "enum":
+        if (!config.choices?.includes(value)) {
+          throw new EnvVarError(
+            "invalid_choice",
+            withValue(
+              `Invalid value, expected one of: ${config.choices?.join(", ")}`,
+              value,
+            ),
+          );
+        }
+        return value;
+      case "duration":
+        const duration = parseDuration(value);
+        if (duration === undefined) {
+          throw new EnvVarError(
+            "invalid_type",
+            withValue(
+              'Invalid duration, expected e.g. "500ms", "30s", "1h30m" or "PT5M"',
+              value,
+            ),
+          );
+        }
+        return duration;
+      case "bytes":
+        const bytes = parseBytes(value);
+        if (bytes === undefined) {
+          throw new EnvVarError(
+            "invalid_type",
+            withValue(
+              'Invalid byte size, expected e.g. "512", "10kb" or "1.5GiB"',
+              value,
+            ),
+          );
+        }
+        return bytes;
+      case "date":
+        const date = parseDate(value);
+        if (!date) {
+          throw new EnvVarError(
+            "invalid_type",
+            withValue("Invalid date, expected an ISO-8601 timestamp", value),
+          );
+        }
+        return date;
+      case "array":
+        return EnvValidator.parseArray(value, config);
+      case "string":
+        EnvValidator.checkString(value, config);
         return value;
+      default:
+        return EnvValidator.parseCustom(value, config.type);
     }
   }
 
+  /**
+   * Parses a value of a type added with `registerType`
+   */
+  private static parseCustom(value: string, type: string): any {
+    const definition = getCustomType(type);
+    if (!definition) return value;
+
+    try {
+      return definition.parse(value);
+    } catch (error) {
+      if (error instanceof EnvVarError) throw error;
+      throw new EnvVarError(
+        "invalid_type",
+        (error as Error).message || withValue(`Invalid ${type}`, value),
+      );
+    }
+  }
+
+  /**
+   * Parses, validates and transforms a single value, e.g. an array element
+   */
+  private static resolveValue(
+    value: string | undefined,
+    config: EnvVarConfig<EnvVarType>,
+  ): any {
+    const parsed = EnvValidator.checkValue(value, config);
+    return parsed !== undefined && config.transform
+      ? config.transform(parsed)
+      : parsed;
+  }
+
+  /**
+   * Parses and validates a single value, without transforming it
+   */
+  private static checkValue(
+    value: string | undefined,
+    config: EnvVarConfig<EnvVarType>,
+    onWarning?: (message: string) => void,
+  ): any {
+    const parsed = EnvValidator.parseValue(value, config);
+
+    // Validators only see values, never an absent optional variable
+    if (parsed === undefined) return undefined;
+
+    const outcome = config.validator?.(parsed);
+    if (outcome === false || typeof outcome === "string") {
+      throw new EnvVarError(
+        "custom_failed",
+        outcome === false ? "Custom validation failed" : outcome,
+      );
+    }
+    const warning = config.warn?.(parsed, { isDefault: value === undefined });
+    if (warning) onWarning?.(warning);
+
+    return parsed;
+  }
+
+  /**
+   * Applies the `message` option of a variable to the failures of its value
+   */
+  private static customMessage(
+    config: EnvVarConfig<EnvVarType>,
+    code: ValidationErrorCode | ValidationWarningCode,
+    message: string,
+    received: string | undefined,
+  ): string {
+    const applies =
+      code === "invalid_type" ||
+      code === "invalid_choice" ||
+      code === "custom_failed" ||
+      code === "constraint_violated";
+    if (!applies || config.message === undefined) return message;
+    return typeof config.message === "function"
+      ? config.message(received)
+      : config.message;
+  }
+
+  /**
+   * Masks the value of a sensitive variable in a message. Messages of
+   * custom validators, custom types and the `message` option may show it
+   * in any form; built-in messages only quote it.
+   */
+  private static redactMessage(
+    config: EnvVarConfig<EnvVarType>,
+    code: ValidationErrorCode | ValidationWarningCode,
+    message: string,
+    received: string | undefined,
+  ): string {
+    if (!config.sensitive) return message;
+    const custom =
+      code === "custom_failed" ||
+      code === "custom_warning" ||
+      config.message !== undefined ||
+      getCustomType(config.type) !== undefined;
+    return custom
+      ? redactWords(message, received)
+      : redactText(message, received);
+  }
+
+  /**
+   * Copies a config without its constraints and validator, to parse values
+   * whose violations were reported as warnings
+   */
+  private static withoutChecks(
+    config: EnvVarConfig<EnvVarType>,
+  ): EnvVarConfig<EnvVarType> {
+    return {
+      ...config,
+      min: undefined,
+      max: undefined,
+      integer: undefined,
+      port: undefined,
+      minLength: undefined,
+      maxLength: undefined,
+      pattern: undefined,
+      startsWith: undefined,
+      minItems: undefined,
+      maxItems: undefined,
+      validator: undefined,
+      warn: undefined,
+    };
+  }
+
+  /**
+   * Splits a delimited list and resolves each element with the item config
+   */
+  private static parseArray(
+    value: string,
+    config: EnvVarConfig<EnvVarType>,
+  ): unknown[] {
+    const items =
+      value.trim() === ""
+        ? []
+        : value.split(config.separator ?? ",").map((item) => item.trim());
+
+    const result = items.map((item, index) => {
+      try {
+        // A trailing or doubled separator must not create a value
+        if (item === "") {
+          throw new EnvVarError("invalid_type", "Empty element");
+        }
+        return EnvValidator.resolveValue(
+          item,
+          config.items ?? { type: "string" },
+        );
+      } catch (error) {
+        const code =
+          error instanceof EnvVarError ? error.code : "custom_failed";
+        const path = error instanceof EnvVarError ? (error.path ?? []) : [];
+        // Messages quote the element, not the whole value
+        const message = EnvValidator.redactMessage(
+          config,
+          code,
+          (error as Error).message,
+          item,
+        );
+        throw new EnvVarError(code, message, [index, ...path]);
+      }
+    });
+
+    if (config.minItems !== undefined && result.length < config.minItems) {
+      throw new EnvVarError(
+        "constraint_violated",
+        `Must contain at least ${config.minItems} items`,
+      );
+    }
+    if (config.maxItems !== undefined && result.length > config.maxItems) {
+      throw new EnvVarError(
+        "constraint_violated",
+        `Must contain at most ${config.maxItems} items`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Enforces the declarative constraints of a number variable
+   */
+  private static checkNumber(value: number, config: NumberConstraints): void {
+    if (
+      config.port &&
+      !(Number.isInteger(value) && value >= 1 && value <= 65535)
+    ) {
+      throw new EnvVarError(
+        "constraint_violated",
+        "Must be a valid port (integer between 1 and 65535)",
+      );
+    }
+    if (config.integer && !Number.isInteger(value)) {
+      throw new EnvVarError("constraint_violated", "Must be an integer");
+    }
+    if (config.min !== undefined && value < config.min) {
+      throw new EnvVarError(
+        "constraint_violated",
+        `Must be at least ${config.min}`,
+      );
+    }
+    if (config.max !== undefined && value > config.max) {
+      throw new EnvVarError(
+        "constraint_violated",
+        `Must be at most ${config.max}`,
+      );
+    }
+  }
+
+  /**
+   * Enforces the declarative constraints of a string variable
+   */
+  private static checkString(value: string, config: StringConstraints): void {
+    if (config.minLength !== undefined && value.length < config.minLength) {
+      throw new EnvVarError(
+        "constraint_violated",
+        `Must be at least ${config.minLength} characters long`,
+      );
+    }
+    if (config.maxLength !== undefined && value.length > config.maxLength) {
+      throw new EnvVarError(
+        "constraint_violated",
+        `Must be at most ${config.maxLength} characters long`,
+      );
+    }
+    if (
+      config.startsWith !== undefined &&
+      !value.startsWith(config.startsWith)
+    ) {
+      throw new EnvVarError(
+        "constraint_violated",
+        `Must start with "${config.startsWith}"`,
+      );
+    }
+    if (config.pattern && !config.pattern.test(value)) {
+      throw new EnvVarError(
+        "constraint_violated",
+        `Must match pattern ${config.pattern}`,
+      );
+    }
+  }
+
+  /**
+   * Reads the raw value of a variable, falling back to the file named by
+   * `<KEY>_FILE` and to its aliases, and warns about deprecated names in use
+   * @returns The value and the file it was read from, if any
+   */
+  private static readVariable(
+    { key, path, config }: SchemaEntry,
+    env: NodeJS.ProcessEnv,
+    warn: (warning: ValidationWarning) => void,
+    fromFile: boolean,
+  ): { value: string | undefined; file?: string } {
+    const location = path.length > 1 ? { configPath: path } : {};
+    let value = env[key];
+    const fileKey = `${key}_FILE`;
+    const file = value === undefined && fromFile ? env[fileKey] : undefined;
+
+    if (file !== undefined) {
+      try {
+        value = readFileSync(file, "utf8").replace(/\r?\n$/, "");
+      } catch (error) {
+        const { code, message } = error as NodeJS.ErrnoException;
+        const reason = (code && FILE_ERRORS[code]) ?? message;
+        throw new EnvVarError(
+          "unreadable_file",
+          `Cannot read ${file} from ${fileKey}: ${reason}`,
+        );
+      }
+    }
+    if (value === undefined) {
+      const alias = config.aliases?.find((name) => env[name] !== undefined);
+      if (alias) {
+        value = env[alias];
+        warn({
+          key,
+          code: "deprecated_alias",
+          message: `${alias} is deprecated, use ${key} instead`,
+          alias,
+          ...location,
+        });
+      }
+    }
+    if (value !== undefined && config.deprecated) {
+      warn({
+        key,
+        code: "deprecated",
+        message: `${key} is deprecated: ${config.deprecated}`,
+        ...location,
+      });
+    }
+
+    return file !== undefined ? { value, file } : { value };
+  }
+
+  /**
+   * Reports variables of the environment that are not part of the schema,
+   * suggesting the closest schema key for likely typos
+   */
+  private static findUnknown(
+    entries: SchemaEntry[],
+    env: NodeJS.ProcessEnv,
+    options: ValidateOptions,
+  ): ValidationIssue[] {
+    const { prefixes } = options;
+    const known = new Set(entries.map(({ key }) => key));
+    const aliases = new Set(
+      entries.flatMap(({ key, config }) => [
+        ...(config.aliases ?? []),
+        ...((config.fromFile ?? options.fromFile) ? [`${key}_FILE`] : []),
+      ]),
+    );
+
+    return Object.keys(env)
+      .filter(
+        (key) =>
+          !known.has(key) &&
+          !aliases.has(key) &&
+          env[key] !== undefined &&
+          (!prefixes || prefixes.some((prefix) => key.startsWith(prefix))),
+      )
+      .map((key) => {
+        const suggestion = suggestKey(key, known);
+        return {
+          key,
+          code: "unknown_variable" as const,
+          expected: "string" as const,
+          received: undefined,
+          message: suggestion
+            ? `Unknown variable, did you mean ${suggestion}?`
+            : "Unknown variable, not defined in the schema",
+          ...(suggestion ? { suggestion } : {}),
+        };
+      });
+  }
+
+  /**
+   * Validates like `validate`, returning the warnings alongside the result
+   * instead of emitting them
+   */
+  static validateWithWarnings<T extends SchemaDefinition>(
+    schema: T,
+    env: NodeJS.ProcessEnv = process.env,
+    options: ValidateOptions = {},
+  ): { env: ValidatedEnv<T>; warnings: ValidationWarning[] } {
+    const warnings: ValidationWarning[] = [];
+    const result = EnvValidator.validate(schema, env, {
+      ...options,
+      onWarning: (warning) => {
+        warnings.push(warning);
+        options.onWarning?.(warning);
+      },
+    });
+    return { env: result, warnings };
+  }
+
   /**
    * Validates environment variables against the provided schema
    */
-  static validate<T extends Record<string, EnvVarConfig<EnvVarType>>>(
+  static validate<T extends SchemaDefinition>(
     schema: T,
     env: NodeJS.ProcessEnv = process.env,
+    options: ValidateOptions = {},
   ): ValidatedEnv<T> {
-    const errors: string[] = [];
+    const run = EnvValidator.run(schema, env, options);
+    return EnvValidator.finish<T>(run);
+  }
+
+  /**
+   * Validates like `validate`, then runs the async validators of every
+   * valid variable concurrently. Their failures and timeouts are reported
+   * together with the other issues.
+   * @throws RangeError if `concurrency` is below 1
+   */
+  static async validateAsync<T extends SchemaDefinition>(
+    schema: T,
+    env: NodeJS.ProcessEnv = process.env,
+    options: ValidateAsyncOptions = {},
+  ): Promise<ValidatedEnv<T>> {
+    const concurrency = options.concurrency ?? Infinity;
+    if (!(concurrency >= 1)) {
+      throw new RangeError(
+        `concurrency must be at least 1, got ${options.concurrency}`,
+      );
+    }
+
+    const run = EnvValidator.run(schema, env, options);
+    const failed = new Set(run.errors.map(({ key }) => key));
+    const checks = run.entries.filter(
+      ({ key, config }) =>
+        config.asyncValidator &&
+        run.parsed[key] !== undefined &&
+        !failed.has(key),
+    );
+
+    const outcomes = await runConcurrently(
+      checks.map(
+        (entry) => () =>
+          checkAsync(
+            entry.config,
+            run.parsed[entry.key],
+            entry.config.timeout ?? options.timeout ?? 5000,
+          ),
+      ),
+      concurrency,
+    );
+
+    checks.forEach((entry, index) => {
+      const message = outcomes[index];
+      if (message === undefined) return;
+      if (entry.config.severity === "warning") {
+        run.warnAbout(entry, "custom_failed", message);
+      } else {
+        run.report(entry, "custom_failed", message);
+      }
+    });
+    run.flushWarnings();
+
+    return EnvValidator.finish<T>(run);
+  }
+
+  /**
+   * Throws the collected issues, or returns the config with its secrets
+   * protected from logging
+   */
+  private static finish<T>(run: ValidationRun): ValidatedEnv<T> {
+    if (run.errors.length > 0) {
+      throw new ValidationError(run.errors);
+    }
+
+    protectSecrets(
+      run.result,
+      run.entries
+        .filter(({ config }) => config.sensitive)
+        .map(({ path }) => path),
+    );
+    return run.result as ValidatedEnv<T>;
+  }
+
+  /**
+   * Parses every variable of the schema, collecting issues instead of
+   * throwing them
+   */
+  private static run<T extends SchemaDefinition>(
+    schema: T,
+    env: NodeJS.ProcessEnv,
+    options: ValidateOptions,
+  ): ValidationRun {
+    const entries = flattenSchema(schema);
+    const errors: ValidationIssue[] = [];
     const result: Record<string, any> = {};
+    const values: Record<string, unknown> = {};
+    const parsed: Record<string, unknown> = {};
+    const raw: Record<string, string | undefined> = {};
+    const files: Record<string, string> = {};
+    let promoted: ValidationWarning[] = [];
+    const warn = (warning: ValidationWarning) =>
+      options.warningsAsErrors
+        ? promoted.push(warning)
+        : (options.onWarning ?? emitWarning)(warning);
+
+    const warnAbout = (
+      { key, path, config }: SchemaEntry,
+      code: ValidationWarningCode,
+      message: string,
+    ) => {
+      const received = raw[key];
+      const text = EnvValidator.customMessage(config, code, message, received);
+      warn({
+        key,
+        code,
+        message: EnvValidator.redactMessage(config, code, text, received),
+        ...(received !== undefined
+          ? { received: config.sensitive ? REDACTED : received }
+          : {}),
+        ...(path.length > 1 ? { configPath: path } : {}),
+      });
+    };
+
+    const report = (
+      { key, path, config }: SchemaEntry,
+      code: ValidationErrorCode,
+      message: string,
+      valuePath?: (string | number)[],
+    ) => {
+      const received = key in raw ? raw[key] : env[key];
+      const text = EnvValidator.customMessage(config, code, message, received);
+      errors.push({
+        key,
+        code,
+        expected: config.type,
+        received:
+          config.sensitive && received !== undefined ? REDACTED : received,
+        message: EnvValidator.redactMessage(config, code, text, received),
+        ...(valuePath ? { path: valuePath } : {}),
+        ...(path.length > 1 ? { configPath: path } : {}),
+        ...(files[key] ? { source: files[key] } : {}),
+      });
+    };
+
+    const fail = (entry: SchemaEntry, error: unknown) => {
+      if (error instanceof EnvVarError) {
+        report(entry, error.code, error.message, error.path);
+      } else {
+        report(entry, "custom_failed", (error as Error).message);
+      }
+    };
+
+    // Promoted warnings are reported as errors
+    const flushWarnings = () => {
+      for (const warning of promoted) {
+        const entry = entries.find(({ key }) => key === warning.key);
+        errors.push({
+          key: warning.key,
+          code: "warning",
+          expected: entry?.config.type ?? "string",
+          received: warning.received,
+          message: warning.message,
+          ...(warning.configPath ? { configPath: warning.configPath } : {}),
+        });
+      }
+      promoted = [];
+    };
+
+    for (const entry of entries) {
+      try {
+        const { value, file } = EnvValidator.readVariable(
+          entry,
+          env,
+          warn,
+          entry.config.fromFile ?? options.fromFile ?? false,
+        );
+        raw[entry.key] = value;
+        if (file) files[entry.key] = file;
+      } catch (error) {
+        fail(entry, error);
+        continue;
+      }
+      const resolve = (config: EnvVarConfig<EnvVarType>) => {
+        const value = EnvValidator.checkValue(
+          raw[entry.key],
+          config,
+          (message) => warnAbout(entry, "custom_warning", message),
+        );
+        parsed[entry.key] = value;
+        values[entry.key] =
+          value !== undefined && config.transform
+            ? config.transform(value)
+            : value;
+        setPath(result, entry.path, values[entry.key]);
+      };
 
-    for (const [key, config] of Object.entries(schema) as [
-      string,
-      EnvVarConfig<EnvVarType>,
-    ][]) {
       try {
-        const value = EnvValidator.parseValue(env[key], config);
+        resolve(entry.config);
+      } catch (error) {
+        const code =
+          error instanceof EnvVarError ? error.code : "custom_failed";
+        if (
+          entry.config.severity !== "warning" ||
+          (code !== "constraint_violated" && code !== "custom_failed")
+        ) {
+          fail(entry, error);
+          continue;
+        }
 
-        if (config.validator && !config.validator(value)) {
-          throw new Error("Custom validation failed");
+        // Downgraded checks keep the value they complained about
+        warnAbout(entry, code, (error as Error).message);
+        try {
+          resolve(EnvValidator.withoutChecks(entry.config));
+        } catch (retryError) {
+          fail(entry, retryError);
         }
+      }
+    }
 
-        result[key] = value;
-      } catch (error) {
-        errors.push(`${key}: ${(error as Error).message}`);
+    // Conditional requirements depend on the other parsed values
+    for (const entry of entries) {
+      const { required } = entry.config;
+      if (
+        typeof required === "function" &&
+        entry.key in values &&
+        values[entry.key] === undefined &&
+        required(values)
+      ) {
+        report(entry, "missing", "Required value is missing");
+      }
+    }
+
+    // Cross-field refinements only run on an otherwise valid environment
+    if (errors.length === 0) {
+      for (const refinement of getRefinements(schema)) {
+        if (!refinement.check(result as ValidatedEnv<T>)) {
+          const entry = entries.find(({ key }) => key === refinement.key);
+          if (entry) {
+            report(entry, "refinement_failed", refinement.message);
+            continue;
+          }
+          errors.push({
+            key: refinement.key,
+            code: "refinement_failed",
+            expected: "string",
+            received: env[refinement.key],
+            message: refinement.message,
+          });
+        }
       }
     }
 
-    if (errors.length > 0) {
-      throw new ValidationError(errors);
+    flushWarnings();
+
+    if (options.strict) {
+      errors.push(...EnvValidator.findUnknown(entries, env, options));
     }
 
-    return result as ValidatedEnv<T>;
+    return {
+      entries,
+      errors,
+      result,
+      parsed,
+      report,
+      warnAbout,
+      flushWarnings,
+    };
   }
 }
@@ -0,0 +1,215 @@
+import { EventEmitter } from "events";
+import { watch } from "fs";
+import type { FSWatcher } from "fs";
+import path from "path";
+import { EnvLoader } from "./loader";
+import type { LoadOptions, LoadResult } from "./loader";
+import { flattenSchema } from "./schema";
+import { REDACTED } from "./redact";
+import { ValidationError } from "./validator";
+import type { SchemaDefinition, ValidatedEnv } from "./types";
+
+/**
+ * Options for watching layered .env files.
+ */
+export interface WatchOptions extends LoadOptions {
+  /** Mask every value in change events, not only sensitive ones (default: false) */
+  readonly mask?: boolean;
+  /** Milliseconds to wait for further edits before reloading (default: 100) */
+  readonly debounce?: number;
+}
+
+/**
+ * A raw value that was added, changed or removed by an edit.
+ */
+export interface EnvChange {
+  readonly key: string;
+  /** Value before the edit, undefined when the key was added */
+  readonly previous: string | undefined;
+  /** Value after the edit, undefined when the key was removed */
+  readonly value: string | undefined;
+}
+
+/**
+ * Payload of the `change` event of an `EnvWatcher`.
+ */
+export interface EnvChangeEvent<T extends SchemaDefinition> {
+  /** Configuration validated from the edited files */
+  readonly config: ValidatedEnv<T>;
+  /** Configuration active before the edit */
+  readonly previous: ValidatedEnv<T>;
+  readonly changes: EnvChange[];
+}
+
+/**
+ * Events of an `EnvWatcher`: `change` after a valid edit, `error` when the
+ * edited files are malformed or invalid.
+ */
+export type EnvWatcherEvents<T extends SchemaDefinition> = {
+  change: [event: EnvChangeEvent<T>];
+  error: [error: Error];
+};
+
+/**
+ * Reloads and revalidates layered .env files when they are edited. An
+ * invalid edit emits `error` and keeps the last valid configuration
+ * active; without `error` listeners it is emitted as a process warning.
+ */
+export class EnvWatcher<T extends SchemaDefinition> extends EventEmitter<
+  EnvWatcherEvents<T>
+> {
+  private current?: LoadResult<T>;
+  private watchers: FSWatcher[] = [];
+  private timer?: NodeJS.Timeout;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly schema: T,
+    private readonly options: WatchOptions = {},
+  ) {
+    super();
+  }
+
+  /**
+   * Last valid configuration.
+   * @throws Error if the watcher has not been started
+   */
+  get config(): ValidatedEnv<T> {
+    if (!this.current) {
+      throw new Error("EnvWatcher has not been started");
+    }
+    return this.current.env;
+  }
+
+  /**
+   * Loads the files and starts watching them, including files of the
+   * cascade that do not exist yet.
+   * @returns Initial configuration
+   * @throws ValidationError if the initial configuration is invalid
+   */
+  async start(): Promise<ValidatedEnv<T>> {
+    this.current = await EnvLoader.load(this.schema, this.options);
+
+    // Directories are watched, as editors often replace files on save
+    const files = EnvLoader.files(this.options);
+    for (const dir of new Set(files.map((file) => path.dirname(file)))) {
+      this.watchers.push(
+        watch(dir, (_event, name) => {
+          if (name && files.includes(path.join(dir, name.toString()))) {
+            this.schedule();
+          }
+        }),
+      );
+    }
+    return this.current.env;
+  }
+
+  /**
+   * Reloads the files now, emitting `change` or `error`. Reloads run one
+   * after another.
+   */
+  reload(): Promise<void> {
+    // A failed reload must not block the following ones
+    this.queue = this.queue.catch(() => undefined).then(() => this.apply());
+    return this.queue;
+  }
+
+  /**
+   * Stops watching the files.
+   */
+  close(): void {
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(
+      () => this.reload().catch((error) => this.fail(error)),
+      this.options.debounce ?? 100,
+    );
+  }
+
+  private async apply(): Promise<void> {
+    const previous = this.current;
+    if (!previous) return;
+
+    let next: LoadResult<T>;
+    try {
+      next = await EnvLoader.load(this.schema, this.options);
+    } catch (error) {
+      this.fail(error as Error);
+      return;
+    }
+
+    this.current = next;
+    const changes = this.diff(previous.values, next.values);
+    if (changes.length > 0) {
+      try {
+        this.emit("change", {
+          config: next.env,
+          previous: previous.env,
+          changes,
+        });
+      } catch (error) {
+        this.fail(error as Error);
+      }
+    }
+  }
+
+  /**
+   * Lists the keys whose raw value differs, masking sensitive values.
+   */
+  private diff(
+    before: Record<string, string>,
+    after: Record<string, string>,
+  ): EnvChange[] {
+    const sensitive = new Set(
+      flattenSchema(this.schema)
+        .filter(({ config }) => config.sensitive)
+        .map(({ key }) => key),
+    );
+    const mask = (key: string, value: string | undefined) =>
+      value !== undefined && (this.options.mask || sensitive.has(key))
+        ? REDACTED
+        : value;
+
+    return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter((key) => before[key] !== after[key])
+      .map((key) => ({
+        key,
+        previous: mask(key, before[key]),
+        value: mask(key, after[key]),
+      }));
+  }
+
+  private fail(error: Error): void {
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", error);
+      return;
+    }
+    process.emitWarning(
+      error instanceof ValidationError ? error.format() : error.message,
+      { type: "EnvWarning", code: "RELOAD_FAILED" },
+    );
+  }
+}
+
+/**
+ * Loads layered .env files and watches them for edits.
+ * @param schema - Environment variable schema
+ * @param options - Load and watch options
+ * @returns Started watcher; call `close` to stop it
+ * @throws ValidationError if the initial configuration is invalid
+ */
+export async function watchEnv<T extends SchemaDefinition>(
+  schema: T,
+  options: WatchOptions = {},
+): Promise<EnvWatcher<T>> {
+  const watcher = new EnvWatcher(schema, options);
+  await watcher.start();
+  return watcher;
+}